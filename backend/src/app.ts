@@ -4,6 +4,9 @@ import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import { authenticateClerk } from './middleware/auth.js';
 import interviewRoutes from './routes/interviews.js';
+import questionRoutes from './routes/questions.js';
+import templateRoutes from './routes/templates.js';
+import profileRoutes from './routes/profile.js';
 import { logger } from './utils/logger.js';
 
 const app = express();
@@ -43,9 +46,21 @@ app.get('/health', (req, res) => {
 
 // API routes (protected)
 app.use('/api/interviews', authenticateClerk, interviewRoutes);
+app.use('/api/admin/questions', authenticateClerk, questionRoutes);
+app.use('/api/templates', authenticateClerk, templateRoutes);
+app.use('/api/profile', authenticateClerk, profileRoutes);
 
 // Error handling
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  // Body parser errors (upload too large, malformed body) carry their own client-error status
+  if (typeof err?.status === 'number' && err.status >= 400 && err.status < 500) {
+    logger.warn(`Rejected ${req.method} ${req.path}: ${err.message}`);
+    const message = err.type === 'entity.too.large'
+      ? `Upload is too large (limit ${Math.round(err.limit / (1024 * 1024))} MB)`
+      : err.expose ? err.message : 'Bad request';
+    return res.status(err.status).json({ message });
+  }
+
   logger.error('Unhandled error:', err);
   res.status(500).json({ message: 'Internal server error' });
 });
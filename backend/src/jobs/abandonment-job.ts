@@ -0,0 +1,113 @@
+import Interview from '../models/Interview.js';
+import { InterviewConversationService } from '../services/interview-conversation-service.js';
+import { interviewerPersona } from '../services/interviewer-personas.js';
+import { SessionCheckpointStore } from '../services/session-checkpoint.js';
+import { SessionRegistry } from '../services/session-registry.js';
+import { logger } from '../utils/logger.js';
+import { acquireJobLock, releaseJobLock } from './job-lock.js';
+
+// Read lazily - env is loaded after module imports are evaluated
+function getSettings() {
+  return {
+    timeoutMinutes: Number(process.env.ABANDONMENT_TIMEOUT_MINUTES) || 30,
+    checkIntervalMinutes: Number(process.env.ABANDONMENT_CHECK_INTERVAL_MINUTES) || 5,
+    partialFeedback: process.env.ABANDONMENT_PARTIAL_FEEDBACK !== 'false',
+  };
+}
+
+// Only one instance in the cluster runs a sweep at a time
+const LOCK_KEY = 'jobs:abandonment:lock';
+
+const checkpoints = new SessionCheckpointStore();
+const registry = new SessionRegistry();
+
+let conversationService: InterviewConversationService | null = null;
+
+function getService(): InterviewConversationService {
+  if (!conversationService) {
+    conversationService = new InterviewConversationService();
+  }
+  return conversationService;
+}
+
+/**
+ * Find in-progress interviews nobody has touched for a while and mark them abandoned
+ */
+export async function sweepAbandonedInterviews(): Promise<number> {
+  const { timeoutMinutes, checkIntervalMinutes, partialFeedback } = getSettings();
+  const lock = await acquireJobLock(LOCK_KEY, checkIntervalMinutes * 60);
+  if (!lock) {
+    logger.debug('[AbandonmentJob] Sweep already running elsewhere');
+    return 0;
+  }
+
+  try {
+    const cutoff = new Date(Date.now() - timeoutMinutes * 60 * 1000);
+    const candidates = await Interview.find({ status: 'in-progress', updatedAt: { $lt: cutoff } });
+
+    let abandoned = 0;
+    for (const interview of candidates) {
+      const interviewId = interview._id.toString();
+
+      // A live socket still holds the session
+      if (await registry.isActive(interviewId, interview.userId)) {
+        continue;
+      }
+
+      const checkpoint = await checkpoints.load(interviewId);
+      if (checkpoint && new Date(checkpoint.savedAt) > cutoff) {
+        continue;
+      }
+
+      try {
+        if (checkpoint) {
+          const context = await checkpoints.restore(checkpoint, {
+            jobTitle: interview.title,
+            jobDescription: interview.description,
+            company: interview.company,
+            interviewId,
+            template: interview.template,
+            resume: interview.resume,
+            persona: interviewerPersona(interview.persona)
+          });
+          await getService().abandonInterview(context, { generateFeedback: partialFeedback });
+          await checkpoints.clear(interviewId);
+        } else {
+          // Nothing was checkpointed - keep the stored history as-is
+          await Interview.findByIdAndUpdate(interviewId, { status: 'abandoned' });
+        }
+
+        abandoned++;
+        logger.info(`[AbandonmentJob] Marked interview ${interviewId} abandoned`);
+      } catch (error) {
+        logger.error(`[AbandonmentJob] Failed to abandon interview ${interviewId}:`, error);
+      }
+    }
+
+    return abandoned;
+  } finally {
+    await releaseJobLock(LOCK_KEY, lock);
+  }
+}
+
+/**
+ * Run the sweep on an interval; returns a function that stops it
+ */
+export function startAbandonmentJob(): () => void {
+  const { timeoutMinutes, checkIntervalMinutes } = getSettings();
+  logger.info(`[AbandonmentJob] Checking every ${checkIntervalMinutes}m for interviews idle over ${timeoutMinutes}m`);
+
+  const run = async () => {
+    try {
+      const count = await sweepAbandonedInterviews();
+      if (count > 0) {
+        logger.info(`[AbandonmentJob] Abandoned ${count} stale interviews`);
+      }
+    } catch (error) {
+      logger.error('[AbandonmentJob] Sweep failed:', error);
+    }
+  };
+
+  const timer = setInterval(run, checkIntervalMinutes * 60 * 1000);
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,54 @@
+import { CalibrationSummary, DifficultyCalibrator } from '../services/difficulty-calibration.js';
+import { logger } from '../utils/logger.js';
+import { acquireJobLock, releaseJobLock } from './job-lock.js';
+
+// Read lazily - env is loaded after module imports are evaluated
+function getSettings() {
+  return {
+    intervalHours: Number(process.env.CALIBRATION_INTERVAL_HOURS) || 24,
+  };
+}
+
+// Only one instance in the cluster recalibrates at a time
+const LOCK_KEY = 'jobs:calibration:lock';
+const LOCK_TTL_SECONDS = 30 * 60;
+
+const calibrator = new DifficultyCalibrator();
+
+/**
+ * Recompute question difficulty from stored answer scores, unless another instance is already doing it
+ */
+export async function runCalibration(): Promise<CalibrationSummary | null> {
+  const lock = await acquireJobLock(LOCK_KEY, LOCK_TTL_SECONDS);
+  if (!lock) {
+    logger.debug('[CalibrationJob] Calibration already running elsewhere');
+    return null;
+  }
+
+  try {
+    return await calibrator.calibrate();
+  } finally {
+    await releaseJobLock(LOCK_KEY, lock);
+  }
+}
+
+/**
+ * Run calibration once on start, then on an interval; returns a function that stops it
+ */
+export function startCalibrationJob(): () => void {
+  const { intervalHours } = getSettings();
+  logger.info(`[CalibrationJob] Recalibrating question difficulty every ${intervalHours}h`);
+
+  const run = async () => {
+    try {
+      await runCalibration();
+    } catch (error) {
+      logger.error('[CalibrationJob] Calibration failed:', error);
+    }
+  };
+
+  // Fresh estimates without waiting a full interval after a deploy
+  run();
+  const timer = setInterval(run, intervalHours * 60 * 60 * 1000);
+  return () => clearInterval(timer);
+}
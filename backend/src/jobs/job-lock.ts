@@ -0,0 +1,27 @@
+import { randomUUID } from 'crypto';
+import { getRedisClient } from '../config/redis.js';
+import { logger } from '../utils/logger.js';
+
+// Only delete the lock if it still holds our token - it may have expired and been taken by another instance
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0`;
+
+/**
+ * Take a cluster-wide job lock; returns the token to release it with, or null if another instance holds it
+ */
+export async function acquireJobLock(key: string, ttlSeconds: number): Promise<string | null> {
+  const token = randomUUID();
+  const locked = await getRedisClient().set(key, token, 'EX', ttlSeconds, 'NX');
+  return locked === 'OK' ? token : null;
+}
+
+export async function releaseJobLock(key: string, token: string): Promise<void> {
+  try {
+    await getRedisClient().eval(RELEASE_SCRIPT, 1, key, token);
+  } catch (error) {
+    logger.error(`[JobLock] Failed to release ${key}:`, error);
+  }
+}
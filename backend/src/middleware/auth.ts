@@ -33,6 +33,59 @@ export async function authenticateClerk(
   }
 }
 
+export type UserRole = 'admin' | 'editor' | 'user';
+
+// Roles are read from Clerk publicMetadata.role; cache them briefly to avoid an API call per request
+const ROLE_CACHE_TTL_MS = 60 * 1000;
+const roleCache = new Map<string, { role: UserRole; expiresAt: number }>();
+
+async function resolveRole(userId: string): Promise<UserRole> {
+  // Bootstrap admins before anyone has a role in Clerk
+  const bootstrapAdmins = process.env.ADMIN_USER_IDS?.split(',').map((id) => id.trim()) || [];
+  if (bootstrapAdmins.includes(userId)) {
+    return 'admin';
+  }
+
+  const cached = roleCache.get(userId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.role;
+  }
+
+  const user = await clerkClient.users.getUser(userId);
+  const declared = user.publicMetadata?.role;
+  const role: UserRole = declared === 'admin' || declared === 'editor' ? declared : 'user';
+
+  roleCache.set(userId, { role, expiresAt: Date.now() + ROLE_CACHE_TTL_MS });
+  return role;
+}
+
+/**
+ * Allow only users with one of the given roles; use after authenticateClerk
+ */
+export function requireRole(...roles: UserRole[]) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.auth?.userId;
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+
+    try {
+      const role = await resolveRole(userId);
+      req.auth!.role = role;
+
+      if (!roles.includes(role)) {
+        logger.warn(`[Auth] User ${userId} with role ${role} denied access to ${req.method} ${req.originalUrl}`);
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+
+      next();
+    } catch (error) {
+      logger.error('Role lookup error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  };
+}
+
 // Extend Express Request type
 declare global {
   namespace Express {
@@ -40,6 +93,7 @@ declare global {
       auth?: {
         userId: string;
         sessionId: string;
+        role?: UserRole;
       };
     }
   }
@@ -1,4 +1,10 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { InterviewTemplateDefinition } from './InterviewTemplate.js';
+import { ResumeProfile } from './UserProfile.js';
+import { STAR_COMPONENTS, StarAnalysis, StarComponent } from '../services/star-analysis.js';
+import { DESIGN_PHASES, DesignPhaseRecord } from '../services/system-design-phases.js';
+import { CODE_LANGUAGES, CodeSubmission } from '../services/code-runner.js';
+import { DEFAULT_PERSONA, InterviewerPersonaId, PERSONA_IDS } from '../services/interviewer-personas.js';
 
 interface QuestionHistoryItem {
   question_id: number;
@@ -9,31 +15,81 @@ interface QuestionHistoryItem {
 
   transcript: string;
   audio_url?: string;
-  duration?: number;
+  duration?: number; // seconds from asking to the end of the last answer
+  answer_started_at?: Date;
+  answer_ended_at?: Date;
+  response_latency?: number; // seconds before the candidate started speaking
+  skipped?: boolean;
+  resume_grounded?: boolean; // Asked about something on the candidate's resume
+  resume_reference?: string;
 
   evaluation?: {
     completeness_score: number;
     confidence_score: number;
     key_points_covered: string[];
     key_points_missed: string[];
+    criterion_scores?: Array<{
+      criterion: string;
+      weight: number;
+      score: number;
+      rationale?: string;
+    }>;
+    question_score?: number;
+    star?: StarAnalysis; // Behavioral questions only
     feedback: string;
     suggested_follow_up?: string;
   };
 
   follow_ups?: Array<{
     question_text: string;
+    trigger_condition?: string;
+    star_component?: StarComponent;
     transcript: string;
     asked_at: Date;
+    answer_started_at?: Date;
+    answer_ended_at?: Date;
   }>;
+
+  design_phases?: DesignPhaseRecord[]; // System design questions only
+  code?: CodeSubmission; // Coding questions only: the last code run or submitted
 }
 
+export type QuestionCategory = 'technical' | 'behavioral' | 'system-design' | 'coding';
+
+export interface InterviewSettings {
+  question_count: number; // Questions to ask, out of the larger selectedQuestions pool
+  target_duration_minutes?: number;
+  // Relative weights per category; omitted categories are not asked
+  category_mix?: Partial<Record<QuestionCategory, number>>;
+  difficulty_band: 'junior' | 'mid' | 'senior';
+}
+
+// Template fields that shape the conversation, copied so later template edits don't change the interview
+export type InterviewTemplateSnapshot = Pick<InterviewTemplateDefinition, 'persona' | 'rubric' | 'stage_script'> & {
+  template_id: string; // Preset key or InterviewTemplate _id
+  name: string;
+};
+
+// How the candidate answers: speaking (STT/TTS) or typing in the chat view
+export type InterviewModality = 'voice' | 'chat';
+
+// Resume copied at creation time, so later uploads don't change past interviews
+export type InterviewResume = Pick<ResumeProfile, 'skills' | 'experience'>;
+
 export interface IInterview extends Document {
   userId: string; // Clerk user ID
   title: string;
   company: string;
   description: string;
+  modality: InterviewModality;
+  persona: InterviewerPersonaId; // Interviewer persona (see services/interviewer-personas.ts)
+
+  // Length, question mix and difficulty chosen at creation time
+  settings?: InterviewSettings;
+  template?: InterviewTemplateSnapshot;
+  resume?: InterviewResume;
 
-  // Question pool (from databank)
+  // Candidate pool (from databank); the adaptive engine picks question_count of them
   selectedQuestions: Array<{
     question_id: number;
     rank: number;
@@ -41,6 +97,8 @@ export interface IInterview extends Document {
   }>;
 
   // Real-time session data
+  startedAt?: Date;
+  endedAt?: Date;
   currentIndex: number;
   status: 'scheduled' | 'in-progress' | 'completed' | 'abandoned';
 
@@ -53,6 +111,8 @@ export interface IInterview extends Document {
     questions_asked: number;
     questions_skipped: number;
     average_response_time: number;
+    candidate_talk_time?: number;
+    talk_time_ratio?: number;
     overall_performance_score: number;
   };
 
@@ -77,11 +137,17 @@ export interface IInterview extends Document {
     generated_at: Date;
   };
 
-  // LLM's adaptive strategy
+  // Adaptive engine's progression (see services/adaptive-engine.ts)
   interview_strategy?: {
-    difficulty_progression: string;
-    focus_areas: string[];
-    skipped_areas: string[];
+    difficulty_progression: string; // Difficulty of each asked question, e.g. "medium → hard → medium"
+    focus_areas: string[]; // Tags asked about, most covered first
+    skipped_areas: string[]; // Tags skipped by the candidate or never reached
+    ability_estimates?: Array<{
+      tag: string; // "overall" or a question tag
+      ability: number;
+      standard_error: number;
+      answers: number;
+    }>;
   };
 
   // Mongoose timestamps (added by { timestamps: true })
@@ -95,6 +161,61 @@ const interviewSchema = new Schema<IInterview>(
     title: { type: String, required: true },
     company: { type: String, required: true },
     description: { type: String, required: true },
+    modality: {
+      type: String,
+      enum: ['voice', 'chat'],
+      default: 'voice'
+    },
+    persona: {
+      type: String,
+      enum: PERSONA_IDS,
+      default: DEFAULT_PERSONA
+    },
+
+    settings: {
+      question_count: Number,
+      target_duration_minutes: Number,
+      category_mix: {
+        technical: Number,
+        behavioral: Number,
+        'system-design': Number,
+        coding: Number
+      },
+      difficulty_band: {
+        type: String,
+        enum: ['junior', 'mid', 'senior'],
+        default: 'mid'
+      }
+    },
+
+    template: {
+      template_id: String,
+      name: String,
+      persona: String,
+      rubric: [{
+        criterion: String,
+        weight: Number
+      }],
+      stage_script: {
+        greeting: String,
+        small_talk: String,
+        ready_check: String,
+        interview: String,
+        closing: String
+      }
+    },
+
+    resume: {
+      skills: [String],
+      experience: [{
+        title: String,
+        company: String,
+        start: String,
+        end: String,
+        highlights: [String],
+        skills: [String]
+      }]
+    },
 
     selectedQuestions: [{
       question_id: { type: Number, required: true },
@@ -102,6 +223,8 @@ const interviewSchema = new Schema<IInterview>(
       initial_relevance_score: Number
     }],
 
+    startedAt: Date,
+    endedAt: Date,
     currentIndex: { type: Number, default: 0 },
     status: {
       type: String,
@@ -120,21 +243,85 @@ const interviewSchema = new Schema<IInterview>(
       transcript: String,
       audio_url: String,
       duration: Number,
+      answer_started_at: Date,
+      answer_ended_at: Date,
+      response_latency: Number,
+      skipped: Boolean,
+      resume_grounded: Boolean,
+      resume_reference: String,
 
       evaluation: {
         completeness_score: Number,
         confidence_score: Number,
         key_points_covered: [String],
         key_points_missed: [String],
+        criterion_scores: [{
+          criterion: String,
+          weight: Number,
+          score: Number,
+          rationale: String
+        }],
+        question_score: Number,
+        star: {
+          segments: [{
+            component: { type: String, enum: STAR_COMPONENTS },
+            present: Boolean,
+            excerpt: String
+          }],
+          missing: [String],
+          completeness: Number
+        },
         feedback: String,
         suggested_follow_up: String
       },
 
       follow_ups: [{
         question_text: String,
+        trigger_condition: String,
+        star_component: { type: String, enum: STAR_COMPONENTS },
         transcript: String,
-        asked_at: Date
-      }]
+        asked_at: Date,
+        answer_started_at: Date,
+        answer_ended_at: Date
+      }],
+
+      design_phases: [{
+        phase: { type: String, enum: DESIGN_PHASES.map(p => p.phase) },
+        budget_seconds: Number,
+        started_at: Date,
+        ended_at: Date,
+        transcript: String,
+        turns: Number,
+        score: Number,
+        rationale: String
+      }],
+
+      code: {
+        language: { type: String, enum: CODE_LANGUAGES },
+        source: String,
+        runs: Number,
+        submitted: Boolean,
+        result: {
+          language: String,
+          passed: Number,
+          total: Number,
+          outcomes: [{
+            index: Number,
+            name: String,
+            hidden: Boolean,
+            passed: Boolean,
+            args: [Schema.Types.Mixed],
+            expected: Schema.Types.Mixed,
+            actual: Schema.Types.Mixed,
+            error: String,
+            duration_ms: Number
+          }],
+          stdout: String,
+          error: String,
+          timed_out: Boolean,
+          duration_ms: Number
+        }
+      }
     }],
 
     metrics: {
@@ -142,6 +329,8 @@ const interviewSchema = new Schema<IInterview>(
       questions_asked: Number,
       questions_skipped: Number,
       average_response_time: Number,
+      candidate_talk_time: Number,
+      talk_time_ratio: Number,
       overall_performance_score: Number
     },
 
@@ -168,7 +357,13 @@ const interviewSchema = new Schema<IInterview>(
     interview_strategy: {
       difficulty_progression: String,
       focus_areas: [String],
-      skipped_areas: [String]
+      skipped_areas: [String],
+      ability_estimates: [{
+        tag: String,
+        ability: Number,
+        standard_error: Number,
+        answers: Number
+      }]
     }
   },
   { timestamps: true }
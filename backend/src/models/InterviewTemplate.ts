@@ -0,0 +1,93 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { InterviewSettings } from './Interview.js';
+import { InterviewerPersonaId, PERSONA_IDS } from '../services/interviewer-personas.js';
+
+export type ScriptedStage = 'greeting' | 'small_talk' | 'ready_check' | 'interview' | 'closing';
+
+/**
+ * Reusable interview setup; presets live in code, user templates in MongoDB
+ */
+export interface InterviewTemplateDefinition {
+  name: string;
+  description: string;
+
+  // Prefills for the create form
+  job_title?: string;
+  job_description?: string;
+
+  settings: InterviewSettings;
+
+  // Default interviewer persona (tone, follow-ups, voice) for interviews created from the template
+  persona_id?: InterviewerPersonaId;
+
+  // Who the interviewer is, added to the system prompt; the persona's tone rules win over it
+  persona?: string;
+
+  // Used for questions that declare no evaluation_criteria
+  rubric?: Array<{
+    criterion: string;
+    weight: number;
+  }>;
+
+  // Extra instructions for the interviewer at each stage
+  stage_script?: Partial<Record<ScriptedStage, string>>;
+}
+
+export interface IInterviewTemplate extends InterviewTemplateDefinition, Document {
+  userId: string; // Clerk user ID of the owner
+
+  // Mongoose timestamps (added by { timestamps: true })
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const interviewTemplateSchema = new Schema<IInterviewTemplate>(
+  {
+    userId: { type: String, required: true, index: true },
+    name: { type: String, required: true },
+    description: { type: String, default: '' },
+
+    job_title: String,
+    job_description: String,
+
+    settings: {
+      question_count: Number,
+      target_duration_minutes: Number,
+      category_mix: {
+        technical: Number,
+        behavioral: Number,
+        'system-design': Number,
+        coding: Number
+      },
+      difficulty_band: {
+        type: String,
+        enum: ['junior', 'mid', 'senior'],
+        default: 'mid'
+      }
+    },
+
+    persona_id: {
+      type: String,
+      enum: PERSONA_IDS
+    },
+    persona: String,
+
+    rubric: [{
+      criterion: String,
+      weight: Number
+    }],
+
+    stage_script: {
+      greeting: String,
+      small_talk: String,
+      ready_check: String,
+      interview: String,
+      closing: String
+    }
+  },
+  { timestamps: true }
+);
+
+interviewTemplateSchema.index({ userId: 1, name: 1 }, { unique: true });
+
+export default mongoose.model<IInterviewTemplate>('InterviewTemplate', interviewTemplateSchema);
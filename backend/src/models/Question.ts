@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { CodeLanguage, TestCase } from '../services/code-runner.js';
 
 export interface IQuestion extends Document {
   question_id: number;
@@ -24,6 +25,11 @@ export interface IQuestion extends Document {
     question_text: string;
   }>;
 
+  // Coding questions: the function the candidate writes and the tests it must pass
+  entry_point?: string;
+  starter_code?: Partial<Record<CodeLanguage, string>>;
+  test_cases?: TestCase[];
+
   // Original Stack Overflow data
   rank_key?: number[];
   view_count?: number;
@@ -39,6 +45,26 @@ export interface IQuestion extends Document {
     context_examples: string[];
   };
 
+  // Difficulty estimated from candidates' scores by the calibration job
+  calibration?: {
+    difficulty: 'easy' | 'medium' | 'hard';
+    mean_score: number; // 0-100, skipped answers count as 0
+    discrimination: number | null; // correlation with the candidate's other answers, -1 to 1
+    responses: number;
+    calibrated_at: Date;
+  };
+
+  // Lowest question_id of the near-duplicate group this question belongs to, if any
+  duplicate_cluster?: number;
+
+  // Semantic search vector; not loaded unless selected explicitly
+  embedding?: {
+    model: string; // provider/model that produced the vector
+    vector: number[];
+    text_hash: string; // hash of the embedded text, to spot stale vectors
+    updated_at: Date;
+  };
+
   // Mongoose timestamps (added by { timestamps: true })
   createdAt: Date;
   updatedAt: Date;
@@ -77,6 +103,19 @@ const questionSchema = new Schema<IQuestion>(
       question_text: String
     }],
 
+    entry_point: String,
+    starter_code: {
+      javascript: String,
+      typescript: String,
+      python: String
+    },
+    test_cases: [{
+      name: String,
+      args: [Schema.Types.Mixed],
+      expected: Schema.Types.Mixed,
+      hidden: { type: Boolean, default: false }
+    }],
+
     rank_key: [Number],
     view_count: Number,
     score: Number,
@@ -87,6 +126,28 @@ const questionSchema = new Schema<IQuestion>(
       can_simplify: { type: Boolean, default: true },
       can_add_context: { type: Boolean, default: true },
       context_examples: [String]
+    },
+
+    calibration: {
+      type: new Schema({
+        difficulty: { type: String, enum: ['easy', 'medium', 'hard'] },
+        mean_score: Number,
+        discrimination: Number,
+        responses: Number,
+        calibrated_at: Date
+      }, { _id: false })
+    },
+
+    duplicate_cluster: { type: Number, index: true },
+
+    embedding: {
+      type: new Schema({
+        model: String,
+        vector: [Number],
+        text_hash: String,
+        updated_at: Date
+      }, { _id: false }),
+      select: false
     }
   },
   { timestamps: true }
@@ -95,5 +156,10 @@ const questionSchema = new Schema<IQuestion>(
 // Indexes for efficient querying
 questionSchema.index({ question_tags: 1, difficulty: 1 });
 questionSchema.index({ category: 1, difficulty: 1 });
+questionSchema.index({ 'embedding.model': 1 });
+questionSchema.index(
+  { question_title: 'text', question_text: 'text', question_tags: 'text' },
+  { name: 'question_search', weights: { question_title: 5, question_tags: 3, question_text: 1 } }
+);
 
 export default mongoose.model<IQuestion>('Question', questionSchema);
@@ -0,0 +1,43 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ResumeExperience } from '../services/resume-parser.js';
+
+export interface ResumeProfile {
+  file_name?: string;
+  format: 'pdf' | 'docx' | 'text';
+  uploaded_at: Date;
+  skills: string[];
+  experience: ResumeExperience[];
+}
+
+export interface IUserProfile extends Document {
+  userId: string; // Clerk user ID
+  resume?: ResumeProfile;
+
+  // Mongoose timestamps (added by { timestamps: true })
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const userProfileSchema = new Schema<IUserProfile>(
+  {
+    userId: { type: String, required: true, unique: true, index: true },
+
+    resume: {
+      file_name: String,
+      format: { type: String, enum: ['pdf', 'docx', 'text'] },
+      uploaded_at: Date,
+      skills: [String],
+      experience: [{
+        title: String,
+        company: String,
+        start: String,
+        end: String,
+        highlights: [String],
+        skills: [String]
+      }]
+    }
+  },
+  { timestamps: true }
+);
+
+export default mongoose.model<IUserProfile>('UserProfile', userProfileSchema);
@@ -1,11 +1,48 @@
 import express from 'express';
+import { z } from 'zod';
 import Interview from '../models/Interview.js';
 import Question from '../models/Question.js';
+import UserProfile from '../models/UserProfile.js';
 import { HybridQuestionSelector } from '../services/questionSelector.js';
+import { InterviewTemplateService } from '../services/interview-templates.js';
+import { DESIGN_PHASES } from '../services/system-design-phases.js';
+import { publicOutcome } from '../services/code-runner.js';
+import { DEFAULT_PERSONA, PERSONAS, PERSONA_IDS, interviewerPersona } from '../services/interviewer-personas.js';
+import {
+  IMPORT_CONTENT_TYPES,
+  ImportFormatError,
+  QuestionImporter,
+  detectImportFormat
+} from '../services/question-import.js';
+import { requireRole } from '../middleware/auth.js';
 import { logger } from '../utils/logger.js';
 
 const router = express.Router();
 const questionSelector = new HybridQuestionSelector();
+const questionImporter = new QuestionImporter();
+const templates = new InterviewTemplateService();
+
+// Interviews created without a length or template keep the original three questions
+const DEFAULT_QUESTION_COUNT = 3;
+
+const createSettingsSchema = z.object({
+  questionCount: z.number().int().min(1).max(20).optional(),
+  durationMinutes: z.number().int().min(5).max(120).optional(),
+  categoryMix: z.object({
+    technical: z.number().min(0).max(100).optional(),
+    behavioral: z.number().min(0).max(100).optional(),
+    'system-design': z.number().min(0).max(100).optional(),
+    coding: z.number().min(0).max(100).optional(),
+  }).optional()
+    .refine((mix) => !mix || Object.values(mix).some((w) => (w || 0) > 0), {
+      message: 'categoryMix needs at least one category with a positive weight',
+    }),
+  difficultyBand: z.enum(['junior', 'mid', 'senior']).optional(),
+  templateId: z.string().min(1).optional(),
+  useResume: z.boolean().default(true),
+  modality: z.enum(['voice', 'chat']).default('voice'),
+  persona: z.enum(PERSONA_IDS).optional(),
+});
 
 // Get all interviews for a user
 router.get('/', async (req, res) => {
@@ -42,13 +79,44 @@ router.post('/create', async (req, res) => {
       });
     }
 
-    logger.info(`Creating interview for user ${userId}: ${jobTitle} at ${company}`);
+    const parsedSettings = createSettingsSchema.safeParse(req.body);
+    if (!parsedSettings.success) {
+      return res.status(400).json({
+        message: 'Invalid interview settings',
+        errors: parsedSettings.error.flatten().fieldErrors,
+      });
+    }
+    const { templateId, useResume, modality } = parsedSettings.data;
+
+    // Settings sent with the request override the template's
+    const template = templateId ? await templates.get(templateId, userId) : null;
+    if (templateId && !template) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+    const hasLength = parsedSettings.data.questionCount !== undefined || parsedSettings.data.durationMinutes !== undefined;
+    const questionCount = hasLength ? parsedSettings.data.questionCount : template?.settings.question_count;
+    const durationMinutes = hasLength ? parsedSettings.data.durationMinutes : template?.settings.target_duration_minutes;
+    const categoryMix = parsedSettings.data.categoryMix ?? template?.settings.category_mix;
+    const difficultyBand = parsedSettings.data.difficultyBand ?? template?.settings.difficulty_band ?? 'mid';
+    const persona = parsedSettings.data.persona ?? template?.persona_id ?? DEFAULT_PERSONA;
+
+    logger.info(`Creating ${modality} interview (${persona}) for user ${userId}: ${jobTitle} at ${company}`);
+
+    const resume = useResume
+      ? (await UserProfile.findOne({ userId }, { resume: 1 }).lean())?.resume
+      : undefined;
 
-    // Use hybrid question selector to get initial questions
-    const selectedQuestions = await questionSelector.selectInitialQuestions(
+    // Use hybrid question selector to get the candidate pool; the adaptive engine picks from it live
+    const { questions: selectedQuestions, count: plannedCount } = await questionSelector.selectInitialQuestions(
       jobTitle,
       jobDescription,
-      10
+      {
+        count: questionCount ?? (durationMinutes ? undefined : DEFAULT_QUESTION_COUNT),
+        durationSeconds: durationMinutes ? durationMinutes * 60 : undefined,
+        categoryMix,
+        difficultyBand,
+        resumeSkills: resume?.skills,
+      }
     );
 
     if (selectedQuestions.length === 0) {
@@ -63,6 +131,16 @@ router.post('/create', async (req, res) => {
       title: jobTitle,
       company,
       description: jobDescription,
+      modality,
+      persona,
+      settings: {
+        question_count: plannedCount, // Questions to ask; selectedQuestions is the larger pool
+        target_duration_minutes: durationMinutes,
+        category_mix: categoryMix,
+        difficulty_band: difficultyBand,
+      },
+      template: template ? templates.snapshot(template) : undefined,
+      resume: resume ? { skills: resume.skills, experience: resume.experience } : undefined,
       selectedQuestions: selectedQuestions.map((q, index) => ({
         question_id: q.question_id,
         rank: index,
@@ -80,7 +158,8 @@ router.post('/create', async (req, res) => {
     res.status(201).json({
       message: 'Interview created successfully',
       interviewId: interview._id.toString(),
-      questionsSelected: selectedQuestions.length,
+      questionsSelected: plannedCount,
+      candidatePool: selectedQuestions.length,
     });
   } catch (error) {
     logger.error('Error creating interview:', error);
@@ -88,6 +167,14 @@ router.post('/create', async (req, res) => {
   }
 });
 
+// Interviewer personas to choose from when creating an interview
+router.get('/personas', (req, res) => {
+  res.json({
+    personas: Object.values(PERSONAS).map(({ id, name, description, voice }) => ({ id, name, description, voice })),
+    default: DEFAULT_PERSONA,
+  });
+});
+
 // Get interview details
 router.get('/:id', async (req, res) => {
   try {
@@ -105,7 +192,8 @@ router.get('/:id', async (req, res) => {
       return res.status(404).json({ message: 'Interview not found' });
     }
 
-    res.json({ interview });
+    const { id, name, voice } = interviewerPersona(interview.persona);
+    res.json({ interview, persona: { id, name, voice } });
   } catch (error) {
     logger.error('Error fetching interview:', error);
     res.status(500).json({ message: 'Server error' });
@@ -150,40 +238,61 @@ router.delete('/:id', async (req, res) => {
   }
 });
 
-// Import questions from JSON (for seeding database)
-router.post('/import-questions', async (req, res) => {
-  try {
-    const { questions } = req.body;
-
-    if (!Array.isArray(questions)) {
-      return res.status(400).json({ message: 'Invalid format: expected array of questions' });
-    }
-
-    const ops = questions.map((q) => ({
-      updateOne: {
-        filter: { question_id: q.question_id },
-        update: { $set: q },
-        upsert: true,
-      },
-    }));
-
-    const result = await Question.bulkWrite(ops, { ordered: false });
+// Import questions from JSON, NDJSON, CSV or YAML (for seeding and curating the databank)
+// ?dryRun=true validates and reports without writing anything
+router.post(
+  '/import-questions',
+  requireRole('admin'),
+  express.text({ type: IMPORT_CONTENT_TYPES, limit: '10mb' }),
+  async (req, res) => {
+    try {
+      const format = detectImportFormat(req.query.format, req.headers['content-type']);
+      if (!format) {
+        return res.status(400).json({ message: 'Unsupported format: use json, ndjson, csv or yaml' });
+      }
+      const dryRun = req.query.dryRun === 'true';
+      const duplicates = req.query.duplicates === 'merge' ? 'merge' : 'flag';
+
+      const plan = await questionImporter.analyze(req.body, format, { dryRun, duplicates });
+      const { report } = plan;
+
+      if (report.cycles.length > 0) {
+        logger.warn(`Rejected question import with ${report.cycles.length} prerequisite cycles`);
+        return res.status(400).json({
+          message: 'Prerequisite cycle detected',
+          cycles: report.cycles,
+          report,
+        });
+      }
 
-    logger.info(`Imported ${result.upsertedCount} new questions, modified ${result.modifiedCount}`);
+      if (dryRun) {
+        return res.json({ message: 'Dry run - nothing was written', report });
+      }
 
-    res.json({
-      message: 'Questions imported successfully',
-      inserted: result.upsertedCount,
-      modified: result.modifiedCount,
-    });
-  } catch (error) {
-    logger.error('Error importing questions:', error);
-    res.status(500).json({ message: 'Server error' });
+      // Rows with errors are skipped; new and changed questions are written
+      const { inserted, modified, merged } = await questionImporter.apply(plan);
+
+      res.json({
+        message: report.summary.invalid > 0
+          ? `Imported with ${report.summary.invalid} invalid rows skipped`
+          : 'Questions imported successfully',
+        inserted,
+        modified,
+        merged,
+        report,
+      });
+    } catch (error) {
+      if (error instanceof ImportFormatError || error instanceof SyntaxError) {
+        return res.status(400).json({ message: error.message });
+      }
+      logger.error('Error importing questions:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
   }
-});
+);
 
 // Get all questions (for debugging)
-router.get('/questions/all', async (req, res) => {
+router.get('/questions/all', requireRole('admin'), async (req, res) => {
   try {
     const questions = await Question.find({})
       .sort({ 'rank_key.0': -1 })
@@ -220,9 +329,46 @@ router.get('/:id/feedback', async (req, res) => {
 
     res.json({
       feedback: interview.feedback,
+      metrics: interview.metrics,
+      questions: (interview.questionHistory || []).map(q => ({
+        question_id: q.question_id,
+        question_text: q.question_text,
+        skipped: q.skipped ?? false,
+        resume_grounded: q.resume_grounded ?? false,
+        question_score: q.evaluation?.question_score,
+        criterion_scores: q.evaluation?.criterion_scores ?? [],
+        star: q.evaluation?.star,
+        design_phases: q.design_phases?.length
+          ? DESIGN_PHASES.map(({ phase, label }) => {
+              const run = q.design_phases!.find(p => p.phase === phase);
+              return {
+                phase,
+                label,
+                score: run ? run.score : 0,
+                rationale: run ? run.rationale : 'Not reached',
+                budget_seconds: run?.budget_seconds,
+                seconds_used: run?.ended_at
+                  ? Math.round((new Date(run.ended_at).getTime() - new Date(run.started_at).getTime()) / 1000)
+                  : undefined
+              };
+            })
+          : undefined,
+        code: q.code?.source
+          ? {
+              language: q.code.language,
+              source: q.code.source,
+              submitted: q.code.submitted,
+              passed: q.code.result?.passed ?? 0,
+              total: q.code.result?.total ?? 0,
+              error: q.code.result?.error,
+              outcomes: (q.code.result?.outcomes ?? []).map(publicOutcome)
+            }
+          : undefined
+      })),
       interviewDetails: {
         title: interview.title,
         company: interview.company,
+        status: interview.status,
         createdAt: interview.createdAt
       }
     });
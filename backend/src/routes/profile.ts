@@ -0,0 +1,104 @@
+import express from 'express';
+import UserProfile from '../models/UserProfile.js';
+import {
+  RESUME_CONTENT_TYPES,
+  ResumeParser,
+  extractResumeText
+} from '../services/resume-parser.js';
+import { logger } from '../utils/logger.js';
+
+// The signed-in user's own profile (mounted behind authenticateClerk)
+const router = express.Router();
+const resumeParser = new ResumeParser();
+
+const MAX_RESUME_SIZE = '5mb';
+
+// Get the user's profile, including the parsed resume
+router.get('/', async (req, res) => {
+  try {
+    const userId = req.auth?.userId;
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+
+    const profile = await UserProfile.findOne({ userId }).lean();
+    res.json({ profile: profile ?? { userId } });
+  } catch (error) {
+    logger.error('Error fetching profile:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Upload a resume as the raw request body (PDF, DOCX or plain text); replaces any earlier one
+router.put(
+  '/resume',
+  express.raw({ type: Object.keys(RESUME_CONTENT_TYPES), limit: MAX_RESUME_SIZE }),
+  async (req, res) => {
+    try {
+      const userId = req.auth?.userId;
+      if (!userId) {
+        return res.status(401).json({ message: 'Unauthorized' });
+      }
+
+      const contentType = (req.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+      const format = RESUME_CONTENT_TYPES[contentType];
+      if (!format || !Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ message: 'Upload a PDF, DOCX or plain-text resume' });
+      }
+
+      let text: string;
+      try {
+        text = await extractResumeText(req.body, format);
+      } catch (error) {
+        logger.warn(`[Profile] Could not read ${format} resume for ${userId}:`, error);
+        return res.status(400).json({ message: `Could not read the ${format.toUpperCase()} file` });
+      }
+
+      if (!text.trim()) {
+        return res.status(400).json({ message: 'No text found in the resume (scanned PDFs are not supported)' });
+      }
+
+      const parsed = resumeParser.parse(text);
+      const fileName = typeof req.query.fileName === 'string' ? req.query.fileName.slice(0, 200) : undefined;
+
+      const profile = await UserProfile.findOneAndUpdate(
+        { userId },
+        {
+          $set: {
+            resume: {
+              file_name: fileName,
+              format,
+              uploaded_at: new Date(),
+              ...parsed,
+            },
+          },
+        },
+        { new: true, upsert: true }
+      ).lean();
+
+      logger.info(`[Profile] ${userId} uploaded a resume: ${parsed.experience.length} roles, ${parsed.skills.length} skills`);
+      res.json({ profile });
+    } catch (error) {
+      logger.error('Error uploading resume:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Remove the stored resume
+router.delete('/resume', async (req, res) => {
+  try {
+    const userId = req.auth?.userId;
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+
+    await UserProfile.updateOne({ userId }, { $unset: { resume: 1 } });
+    res.json({ message: 'Resume removed' });
+  } catch (error) {
+    logger.error('Error removing resume:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,356 @@
+import express from 'express';
+import { z } from 'zod';
+import Question from '../models/Question.js';
+import { requireRole } from '../middleware/auth.js';
+import { PrerequisiteGraph } from '../services/prerequisite-graph.js';
+import { QuestionEmbeddingIndex } from '../services/question-embeddings.js';
+import { QuestionDeduplicator } from '../services/question-dedup.js';
+import { isLowDiscrimination } from '../services/difficulty-calibration.js';
+import { runCalibration } from '../jobs/calibration-job.js';
+import { createQuestionSchema, updateQuestionSchema } from '../validation/question-schema.js';
+import { logger } from '../utils/logger.js';
+
+// Question bank management for the content team (mounted behind authenticateClerk)
+const router = express.Router();
+
+// Editors curate the bank; deleting is reserved for admins
+router.use(requireRole('admin', 'editor'));
+
+const MAX_PAGE_SIZE = 100;
+
+const embeddings = new QuestionEmbeddingIndex();
+const deduplicator = new QuestionDeduplicator();
+
+const listQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(20),
+  tag: z.union([z.string(), z.array(z.string())]).optional(),
+  category: z.enum(['technical', 'behavioral', 'system-design', 'coding']).optional(),
+  difficulty: z.enum(['easy', 'medium', 'hard']).optional(),
+  q: z.string().trim().min(1).optional(),
+});
+
+const bulkTagSchema = z.object({
+  questionIds: z.array(z.number().int().positive()).min(1),
+  add: z.array(z.string().trim().min(1)).default([]),
+  remove: z.array(z.string().trim().min(1)).default([]),
+}).refine((body) => body.add.length > 0 || body.remove.length > 0, {
+  message: 'Provide tags to add or remove',
+});
+
+/**
+ * Prerequisite problems the change would introduce, or null if the bank stays valid
+ */
+async function checkPrerequisites(question: { question_id: number; prerequisites?: number[] }) {
+  const existing = await Question.find({}, { question_id: 1, prerequisites: 1 }).lean();
+  const graph = new PrerequisiteGraph(existing);
+  graph.add(question);
+
+  const unknown = graph.prerequisitesOf(question.question_id).filter((id) => !graph.has(id));
+  if (unknown.length > 0) {
+    return { message: 'Unknown prerequisite questions', unknown };
+  }
+
+  const cycles = graph.findCycles();
+  if (cycles.length > 0) {
+    return { message: 'Prerequisite cycle detected', cycles };
+  }
+
+  return null;
+}
+
+// List questions with filters, full-text search and pagination
+router.get('/', async (req, res) => {
+  try {
+    const parsed = listQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid query',
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+    const { page, limit, tag, category, difficulty, q } = parsed.data;
+
+    const filter: Record<string, unknown> = {};
+    if (tag) filter.question_tags = { $all: Array.isArray(tag) ? tag : [tag] };
+    if (category) filter.category = category;
+    if (difficulty) filter.difficulty = difficulty;
+    if (q) filter.$text = { $search: q };
+
+    const query = q
+      ? Question.find(filter, { search_score: { $meta: 'textScore' } }).sort({ search_score: { $meta: 'textScore' } })
+      : Question.find(filter).sort({ question_id: 1 });
+
+    const [questions, total] = await Promise.all([
+      query.skip((page - 1) * limit).limit(limit).lean(),
+      Question.countDocuments(filter),
+    ]);
+
+    res.json({
+      questions,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    logger.error('Error listing questions:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Add or remove tags on many questions at once
+router.post('/bulk-tags', async (req, res) => {
+  try {
+    const parsed = bulkTagSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid bulk tag request',
+        errors: parsed.error.flatten(),
+      });
+    }
+    const { questionIds, add, remove } = parsed.data;
+    const filter = { question_id: { $in: questionIds } };
+
+    // MongoDB cannot $addToSet and $pull the same field in one update
+    let modified = 0;
+    if (add.length > 0) {
+      const result = await Question.updateMany(filter, { $addToSet: { question_tags: { $each: add } } });
+      modified += result.modifiedCount;
+    }
+    if (remove.length > 0) {
+      const result = await Question.updateMany(filter, { $pull: { question_tags: { $in: remove } } });
+      modified += result.modifiedCount;
+    }
+
+    const matched = await Question.countDocuments(filter);
+    embeddings.refreshInBackground(questionIds);
+    logger.info(`[Questions] ${req.auth?.userId} retagged ${matched} questions (+${add.join(',')} -${remove.join(',')})`);
+
+    res.json({ matched, modified });
+  } catch (error) {
+    logger.error('Error bulk editing tags:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// List duplicate clusters found by the last clustering run
+router.get('/duplicates', async (req, res) => {
+  try {
+    const clusters = await Question.aggregate([
+      { $match: { duplicate_cluster: { $exists: true } } },
+      { $sort: { question_id: 1 } },
+      {
+        $group: {
+          _id: '$duplicate_cluster',
+          questions: {
+            $push: {
+              question_id: '$question_id',
+              question_title: '$question_title',
+              question_tags: '$question_tags',
+              difficulty: '$difficulty',
+            },
+          },
+        },
+      },
+      { $sort: { _id: 1 } },
+      { $project: { _id: 0, cluster_id: '$_id', questions: 1 } },
+    ]);
+
+    res.json({ clusters });
+  } catch (error) {
+    logger.error('Error listing duplicate clusters:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Recompute duplicate clusters across the bank (admins only)
+router.post('/duplicates/recluster', requireRole('admin'), async (req, res) => {
+  try {
+    const clusters = await deduplicator.recluster();
+    logger.info(`[Questions] ${req.auth?.userId} re-clustered duplicates`);
+    res.json({ clusters });
+  } catch (error) {
+    logger.error('Error clustering duplicates:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Questions whose hand-assigned difficulty disagrees with calibrated scores
+router.get('/calibration/disagreements', async (req, res) => {
+  try {
+    const questions = await Question.find(
+      { calibration: { $exists: true }, $expr: { $ne: ['$difficulty', '$calibration.difficulty'] } },
+      { question_id: 1, question_title: 1, category: 1, difficulty: 1, calibration: 1 }
+    )
+      .sort({ 'calibration.responses': -1 })
+      .lean();
+
+    res.json({
+      questions: questions.map((q) => ({
+        ...q,
+        low_discrimination: isLowDiscrimination(q.calibration?.discrimination),
+      })),
+    });
+  } catch (error) {
+    logger.error('Error listing calibration disagreements:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Recalibrate difficulty now instead of waiting for the job (admins only)
+router.post('/calibration/run', requireRole('admin'), async (req, res) => {
+  try {
+    const summary = await runCalibration();
+    if (!summary) {
+      return res.status(409).json({ message: 'Calibration is already running' });
+    }
+    logger.info(`[Questions] ${req.auth?.userId} ran difficulty calibration`);
+    res.json(summary);
+  } catch (error) {
+    logger.error('Error running calibration:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get a single question
+router.get('/:questionId', async (req, res) => {
+  try {
+    const questionId = Number(req.params.questionId);
+    if (!Number.isInteger(questionId)) {
+      return res.status(400).json({ message: 'Invalid question ID' });
+    }
+
+    const question = await Question.findOne({ question_id: questionId }).lean();
+    if (!question) {
+      return res.status(404).json({ message: 'Question not found' });
+    }
+
+    res.json({ question });
+  } catch (error) {
+    logger.error('Error fetching question:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Create a question
+router.post('/', async (req, res) => {
+  try {
+    const parsed = createQuestionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid question',
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    let questionId = parsed.data.question_id;
+    if (questionId === undefined) {
+      const last = await Question.findOne({}, { question_id: 1 }).sort({ question_id: -1 }).lean();
+      questionId = (last?.question_id ?? 0) + 1;
+    } else if (await Question.exists({ question_id: questionId })) {
+      return res.status(409).json({ message: `Question ${questionId} already exists` });
+    }
+
+    const data = { ...parsed.data, question_id: questionId };
+    const problem = await checkPrerequisites(data);
+    if (problem) {
+      return res.status(400).json(problem);
+    }
+
+    const pool = await Question.find({ category: data.category }, {
+      question_id: 1,
+      question_title: 1,
+      question_text: 1,
+      question_tags: 1,
+      category: 1,
+    }).lean();
+    const possibleDuplicates = deduplicator.findDuplicates(data, pool);
+
+    const question = await Question.create(data);
+    embeddings.refreshInBackground([questionId]);
+    logger.info(`[Questions] ${req.auth?.userId} created question ${questionId}`);
+
+    // Created anyway; editors decide whether to merge
+    res.status(201).json({ question, possible_duplicates: possibleDuplicates });
+  } catch (error) {
+    logger.error('Error creating question:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Update part of a question
+router.patch('/:questionId', async (req, res) => {
+  try {
+    const questionId = Number(req.params.questionId);
+    if (!Number.isInteger(questionId)) {
+      return res.status(400).json({ message: 'Invalid question ID' });
+    }
+
+    const parsed = updateQuestionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid question update',
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    if (parsed.data.prerequisites) {
+      const problem = await checkPrerequisites({ question_id: questionId, prerequisites: parsed.data.prerequisites });
+      if (problem) {
+        return res.status(400).json(problem);
+      }
+    }
+
+    const question = await Question.findOneAndUpdate(
+      { question_id: questionId },
+      { $set: parsed.data },
+      { new: true, runValidators: true }
+    ).lean();
+
+    if (!question) {
+      return res.status(404).json({ message: 'Question not found' });
+    }
+
+    embeddings.refreshInBackground([questionId]);
+    logger.info(`[Questions] ${req.auth?.userId} updated question ${questionId}`);
+    res.json({ question });
+  } catch (error) {
+    logger.error('Error updating question:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Delete a question (admins only)
+router.delete('/:questionId', requireRole('admin'), async (req, res) => {
+  try {
+    const questionId = Number(req.params.questionId);
+    if (!Number.isInteger(questionId)) {
+      return res.status(400).json({ message: 'Invalid question ID' });
+    }
+
+    // Deleting a prerequisite would leave dangling references
+    const dependents = await Question.find({ prerequisites: questionId }, { question_id: 1 }).lean();
+    if (dependents.length > 0) {
+      return res.status(409).json({
+        message: 'Question is a prerequisite of other questions',
+        dependents: dependents.map((q) => q.question_id),
+      });
+    }
+
+    const result = await Question.deleteOne({ question_id: questionId });
+    if (result.deletedCount === 0) {
+      return res.status(404).json({ message: 'Question not found' });
+    }
+
+    logger.info(`[Questions] ${req.auth?.userId} deleted question ${questionId}`);
+    res.json({ message: 'Question deleted successfully' });
+  } catch (error) {
+    logger.error('Error deleting question:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,107 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import InterviewTemplate from '../models/InterviewTemplate.js';
+import { InterviewTemplateService } from '../services/interview-templates.js';
+import { templateInputSchema } from '../validation/template-schema.js';
+import { logger } from '../utils/logger.js';
+
+// Presets plus each user's own templates (mounted behind authenticateClerk)
+const router = express.Router();
+const templates = new InterviewTemplateService();
+
+// List presets and the user's saved templates
+router.get('/', async (req, res) => {
+  try {
+    const userId = req.auth?.userId;
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+
+    res.json({ templates: await templates.list(userId) });
+  } catch (error) {
+    logger.error('Error listing templates:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get one preset or saved template
+router.get('/:id', async (req, res) => {
+  try {
+    const userId = req.auth?.userId;
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+
+    const template = await templates.get(req.params.id, userId);
+    if (!template) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+
+    res.json({ template });
+  } catch (error) {
+    logger.error('Error fetching template:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Save a template of the user's own
+router.post('/', async (req, res) => {
+  try {
+    const userId = req.auth?.userId;
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+
+    const parsed = templateInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: 'Invalid template',
+        errors: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    let saved;
+    try {
+      saved = await InterviewTemplate.create({ ...parsed.data, userId });
+    } catch (error) {
+      // The unique { userId, name } index decides, so two concurrent saves cannot both succeed
+      if ((error as { code?: number }).code === 11000) {
+        return res.status(409).json({ message: `You already have a template named "${parsed.data.name}"` });
+      }
+      throw error;
+    }
+    logger.info(`[Templates] ${userId} saved template ${saved._id}`);
+
+    res.status(201).json({ template: await templates.get(saved._id.toString(), userId) });
+  } catch (error) {
+    logger.error('Error saving template:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Delete a saved template (presets cannot be deleted)
+router.delete('/:id', async (req, res) => {
+  try {
+    const userId = req.auth?.userId;
+    if (!userId) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(400).json({ message: 'Only saved templates can be deleted' });
+    }
+
+    const result = await InterviewTemplate.deleteOne({ _id: req.params.id, userId });
+    if (result.deletedCount === 0) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+
+    logger.info(`[Templates] ${userId} deleted template ${req.params.id}`);
+    res.json({ message: 'Template deleted successfully' });
+  } catch (error) {
+    logger.error('Error deleting template:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
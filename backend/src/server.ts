@@ -4,15 +4,22 @@ config({ path: '.env' });
 
 import { createServer } from 'http';
 import { Server, Socket } from 'socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
 import app from './app.js';
 import { connectDatabase } from './config/database.js';
 import { getRedisClient } from './config/redis.js';
 import { handleInterview } from './sockets/interviewHandler.js';
+import { startAbandonmentJob } from './jobs/abandonment-job.js';
+import { startCalibrationJob } from './jobs/calibration-job.js';
 import { logger } from './utils/logger.js';
 import { verifyToken } from '@clerk/backend';
 
 const PORT = process.env.PORT || 8000;
 
+// Background jobs, stopped on shutdown
+let stopAbandonmentJob: (() => void) | null = null;
+let stopCalibrationJob: (() => void) | null = null;
+
 // Create HTTP server
 const server = createServer(app);
 
@@ -95,6 +102,16 @@ async function startServer() {
     await redis.ping();
     logger.info('✅ Connected to Redis');
 
+    // Share rooms and events across backend instances
+    const pubClient = redis.duplicate();
+    const subClient = redis.duplicate();
+    io.adapter(createAdapter(pubClient, subClient));
+    logger.info('✅ Socket.IO Redis adapter attached');
+
+    // Start background jobs
+    stopAbandonmentJob = startAbandonmentJob();
+    stopCalibrationJob = startCalibrationJob();
+
     // Start HTTP server
     server.listen(PORT, () => {
       logger.info(`🚀 Server running on port ${PORT}`);
@@ -110,6 +127,8 @@ async function startServer() {
 // Handle shutdown gracefully
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down gracefully...');
+  stopAbandonmentJob?.();
+  stopCalibrationJob?.();
   server.close(() => {
     logger.info('Server closed');
     process.exit(0);
@@ -118,6 +137,8 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   logger.info('SIGINT received, shutting down gracefully...');
+  stopAbandonmentJob?.();
+  stopCalibrationJob?.();
   server.close(() => {
     logger.info('Server closed');
     process.exit(0);
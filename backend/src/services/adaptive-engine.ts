@@ -0,0 +1,247 @@
+import { IQuestion } from '../models/Question.js';
+import { effectiveDifficulty } from './difficulty-calibration.js';
+import { PrerequisiteGraph } from './prerequisite-graph.js';
+
+// Item difficulty on the ability scale for uncalibrated questions
+const LABEL_DIFFICULTY: Record<IQuestion['difficulty'], number> = {
+  easy: -1,
+  medium: 0,
+  hard: 1,
+};
+
+// Abilities and difficulties are kept within this range
+const MAX_LOGIT = 3;
+
+// Prior: abilities start at 0 with this variance; tag abilities start at the overall estimate
+const PRIOR_VARIANCE = 1;
+
+// Newton steps when maximizing the posterior
+const MAP_ITERATIONS = 10;
+
+// Tag used for questions without tags
+const UNTAGGED = 'general';
+
+export interface ScoredResponse {
+  question: IQuestion;
+  score: number; // 0-100; skipped questions count as 0
+}
+
+export interface TagAbility {
+  tag: string;
+  ability: number; // Logit scale: 0 is an average candidate
+  standard_error: number;
+  answers: number;
+}
+
+export interface AdaptiveSelection {
+  question: IQuestion;
+  ability: number; // Estimated ability on the question's tags
+  information: number; // Fisher information of the question at that ability
+  reasoning: string;
+}
+
+export interface InterviewStrategy {
+  difficulty_progression: string;
+  focus_areas: string[];
+  skipped_areas: string[];
+  ability_estimates: TagAbility[];
+}
+
+interface ItemParameters {
+  difficulty: number;
+  discrimination: number;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function tagsOf(question: IQuestion): string[] {
+  const tags = (question.question_tags ?? []).map(t => t.toLowerCase());
+  return tags.length > 0 ? Array.from(new Set(tags)) : [UNTAGGED];
+}
+
+/**
+ * Two-parameter logistic item parameters
+ * Calibrated questions use their observed mean score and discrimination
+ */
+function itemParameters(question: IQuestion): ItemParameters {
+  const calibration = question.calibration;
+  if (!calibration) {
+    return { difficulty: LABEL_DIFFICULTY[question.difficulty] ?? 0, discrimination: 1 };
+  }
+
+  const meanScore = clamp(calibration.mean_score, 5, 95) / 100;
+  const discrimination = calibration.discrimination === null || calibration.discrimination === undefined
+    ? 1
+    : clamp(0.4 + 2 * calibration.discrimination, 0.3, 2.5);
+  return {
+    difficulty: clamp(Math.log((1 - meanScore) / meanScore), -MAX_LOGIT, MAX_LOGIT),
+    discrimination,
+  };
+}
+
+function probability(ability: number, item: ItemParameters): number {
+  return 1 / (1 + Math.exp(-item.discrimination * (ability - item.difficulty)));
+}
+
+function information(ability: number, item: ItemParameters): number {
+  const p = probability(ability, item);
+  return item.discrimination * item.discrimination * p * (1 - p);
+}
+
+/**
+ * Maximum a posteriori ability with a normal prior
+ * Scores are used as fractional successes, so partial answers count partially
+ */
+function estimateAbility(observations: Array<{ item: ItemParameters; score: number }>, priorMean: number) {
+  let ability = priorMean;
+  for (let i = 0; i < MAP_ITERATIONS; i++) {
+    let gradient = -(ability - priorMean) / PRIOR_VARIANCE;
+    let curvature = 1 / PRIOR_VARIANCE;
+    for (const { item, score } of observations) {
+      gradient += item.discrimination * (score - probability(ability, item));
+      curvature += information(ability, item);
+    }
+    ability = clamp(ability + gradient / curvature, -MAX_LOGIT, MAX_LOGIT);
+  }
+
+  const totalInformation = 1 / PRIOR_VARIANCE
+    + observations.reduce((sum, { item }) => sum + information(ability, item), 0);
+  return { ability, standardError: 1 / Math.sqrt(totalInformation) };
+}
+
+/**
+ * Deterministic question selection from per-tag ability estimates
+ *
+ * Each answer updates the ability on the question's tags. The next question is
+ * the one expected to reduce uncertainty about those abilities the most, so the
+ * interview moves toward the candidate's level and toward untested areas.
+ */
+export class AdaptiveDifficultyEngine {
+  /**
+   * Overall ability plus one estimate per tag seen so far
+   */
+  estimateAbilities(responses: ScoredResponse[]): { overall: TagAbility; tags: Map<string, TagAbility> } {
+    const observations = responses.map(r => ({
+      tags: tagsOf(r.question),
+      item: itemParameters(r.question),
+      score: clamp(r.score, 0, 100) / 100,
+    }));
+
+    const overallEstimate = estimateAbility(observations, 0);
+    const overall: TagAbility = {
+      tag: 'overall',
+      ability: overallEstimate.ability,
+      standard_error: overallEstimate.standardError,
+      answers: observations.length,
+    };
+
+    // Tag estimates shrink toward the overall ability until the tag has its own answers
+    const tags = new Map<string, TagAbility>();
+    const allTags = new Set(observations.flatMap(o => o.tags));
+    for (const tag of allTags) {
+      const tagged = observations.filter(o => o.tags.includes(tag));
+      const estimate = estimateAbility(tagged, overall.ability);
+      tags.set(tag, {
+        tag,
+        ability: estimate.ability,
+        standard_error: estimate.standardError,
+        answers: tagged.length,
+      });
+    }
+
+    return { overall, tags };
+  }
+
+  /**
+   * The remaining question with the most expected information, among those whose prerequisites were asked
+   * Ties go to the question ranked higher at creation time
+   */
+  selectNext(remaining: IQuestion[], responses: ScoredResponse[], askedQuestionIds: number[]): AdaptiveSelection | null {
+    if (remaining.length === 0) return null;
+
+    const graph = new PrerequisiteGraph(remaining);
+    const remainingIds = new Set(remaining.map(q => q.question_id));
+    const asked = new Set(askedQuestionIds);
+    const ready = remaining.filter(q =>
+      graph.prerequisitesOf(q.question_id).every(id => asked.has(id) || !remainingIds.has(id))
+    );
+    const candidates = ready.length > 0 ? ready : remaining;
+
+    const { overall, tags } = this.estimateAbilities(responses);
+
+    let best: (AdaptiveSelection & { value: number }) | null = null;
+    for (const question of candidates) {
+      const estimates = tagsOf(question).map(tag => tags.get(tag) ?? {
+        tag,
+        ability: overall.ability,
+        standard_error: Math.sqrt(PRIOR_VARIANCE),
+        answers: 0,
+      });
+      const ability = estimates.reduce((sum, e) => sum + e.ability, 0) / estimates.length;
+      const info = information(ability, itemParameters(question));
+
+      // Expected drop in posterior variance, averaged over the question's tags
+      const value = estimates.reduce((sum, e) => {
+        const variance = e.standard_error * e.standard_error;
+        return sum + (variance * variance * info) / (1 + variance * info);
+      }, 0) / estimates.length;
+
+      if (!best || value > best.value + 1e-9) {
+        best = {
+          question,
+          ability: round(ability),
+          information: round(info),
+          value,
+          reasoning: `Most informative at ability ${round(ability)} on ${estimates.map(e => e.tag).join(', ')} (${effectiveDifficulty(question)})`,
+        };
+      }
+    }
+
+    const { value: _value, ...selection } = best!;
+    return selection;
+  }
+
+  /**
+   * Progression and coverage to store on the interview as interview_strategy
+   */
+  strategy(asked: IQuestion[], responses: ScoredResponse[], remaining: IQuestion[], skippedIds: number[]): InterviewStrategy {
+    const { overall, tags } = this.estimateAbilities(responses);
+
+    const askedTagCounts = new Map<string, number>();
+    for (const question of asked) {
+      for (const tag of tagsOf(question)) {
+        askedTagCounts.set(tag, (askedTagCounts.get(tag) ?? 0) + 1);
+      }
+    }
+
+    // Tags of questions the candidate skipped, or left in the pool and never reached
+    const skipped = new Set(skippedIds);
+    const skippedAreas = new Set<string>();
+    for (const question of asked.filter(q => skipped.has(q.question_id))) {
+      tagsOf(question).forEach(tag => skippedAreas.add(tag));
+    }
+    for (const question of remaining) {
+      tagsOf(question).filter(tag => !askedTagCounts.has(tag)).forEach(tag => skippedAreas.add(tag));
+    }
+
+    return {
+      difficulty_progression: asked.map(q => effectiveDifficulty(q)).join(' → '),
+      // Stable sort keeps first-asked order among equally covered tags
+      focus_areas: Array.from(askedTagCounts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .map(([tag]) => tag),
+      skipped_areas: Array.from(skippedAreas),
+      ability_estimates: [overall, ...tags.values()].map(e => ({
+        ...e,
+        ability: round(e.ability),
+        standard_error: round(e.standard_error),
+      })),
+    };
+  }
+}
@@ -0,0 +1,139 @@
+import OpenAI from 'openai';
+import { logger } from '../utils/logger.js';
+
+export type CandidateIntent = 'answer' | 'repeat' | 'clarify' | 'skip' | 'pause' | 'end';
+
+// Commands are short; anything longer is treated as an answer without a model call
+const MAX_COMMAND_WORDS = 25;
+
+// Offline fallback - each pattern must match the utterance as a request, not a passing mention
+const COMMAND_PATTERNS: Array<{ intent: Exclude<CandidateIntent, 'answer'>; patterns: RegExp[] }> = [
+  {
+    intent: 'end',
+    patterns: [
+      /\b(end|stop|finish|quit|terminate)\b.{0,20}\b(interview|session|this)\b/,
+      /\bi('m| am) done\b.{0,20}\b(interview|for today)\b/,
+      /\bi (want|need|have) to (leave|go)\b/
+    ]
+  },
+  {
+    intent: 'pause',
+    patterns: [
+      /\b(pause|hold on|give me a (minute|moment|second|sec)|take a (short )?break|be right back|brb)\b/,
+      /\b(one|a) (minute|moment|second|sec),? please\b/
+    ]
+  },
+  {
+    intent: 'skip',
+    patterns: [
+      // Anchored so answers that mention skipping ("a skip list") stay answers
+      /^((um|uh|ok|okay|so|actually),? )*(can we |can i |could we |could i |let's |let me |please |i'll |i('d| would) like to |i want to )?skip( this| it| that)?( one| question)?\b/,
+      /\b(next|another|different) question\b/,
+      /\b(move|go) on\b.{0,20}\b(next|question)\b/,
+      /\bpass on this\b/
+    ]
+  },
+  {
+    intent: 'repeat',
+    patterns: [
+      /\b(repeat|say (that|it) again|come again)\b/,
+      /\bdidn'?t (catch|hear)\b/,
+      /\bone more time\b/,
+      /^(sorry|pardon)\??$/
+    ]
+  },
+  {
+    intent: 'clarify',
+    patterns: [
+      /\b(rephrase|clarify|elaborate on the question|explain the question)\b/,
+      /\bwhat do you mean\b/,
+      /\b(don'?t|do not) (understand|get) (the|your|what you)\b/,
+      /\bwhat (exactly )?(are you|is the question) asking\b/,
+      /\bin other words\b/
+    ]
+  }
+];
+
+/**
+ * Recognizes when the candidate is asking the interviewer to do something
+ * (repeat, rephrase, skip, pause, end) instead of answering the question
+ */
+export class CandidateIntentClassifier {
+  private openai: OpenAI;
+
+  constructor() {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error('OPENAI_API_KEY is not defined');
+    }
+    this.openai = new OpenAI({ apiKey });
+  }
+
+  async classify(message: string, pendingQuestion: string): Promise<CandidateIntent> {
+    const normalized = message.toLowerCase().trim();
+    if (!normalized) return 'answer';
+
+    if (normalized.split(/\s+/).length > MAX_COMMAND_WORDS) {
+      return 'answer';
+    }
+
+    try {
+      return await this.classifyWithModel(message, pendingQuestion);
+    } catch (error) {
+      logger.warn('[CandidateIntent] Model classification failed, using patterns:', error);
+      return this.classifyOffline(normalized);
+    }
+  }
+
+  /**
+   * Deterministic pattern match used when the model is unavailable
+   */
+  classifyOffline(normalized: string): CandidateIntent {
+    for (const { intent, patterns } of COMMAND_PATTERNS) {
+      if (patterns.some(pattern => pattern.test(normalized))) {
+        return intent;
+      }
+    }
+    return 'answer';
+  }
+
+  private async classifyWithModel(message: string, pendingQuestion: string): Promise<CandidateIntent> {
+    const prompt = `An interviewer asked a candidate: "${pendingQuestion}"
+
+The candidate replied: "${message}"
+
+Classify the reply. Is the candidate answering (even partially, or saying they don't know), or asking the interviewer to do something?
+- "answer": any attempt at answering, thinking aloud, or admitting they don't know
+- "repeat": wants the question said again
+- "clarify": wants the question rephrased or explained
+- "skip": wants to skip this question and move to the next one
+- "pause": wants a short break before continuing
+- "end": wants to stop the whole interview now
+
+Return JSON: { "intent": "answer" | "repeat" | "clarify" | "skip" | "pause" | "end" }`;
+
+    const response = await this.openai.chat.completions.create({
+      model: 'gpt-4o-mini',
+      temperature: 0,
+      max_tokens: 20,
+      response_format: { type: 'json_object' },
+      messages: [
+        { role: 'system', content: 'You classify what an interview candidate wants. Always return valid JSON.' },
+        { role: 'user', content: prompt }
+      ]
+    });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error('Empty response from OpenAI');
+    }
+
+    const { intent } = JSON.parse(content) as { intent?: string };
+    const known: CandidateIntent[] = ['answer', 'repeat', 'clarify', 'skip', 'pause', 'end'];
+    if (!intent || !known.includes(intent as CandidateIntent)) {
+      throw new Error(`Unknown intent: ${intent}`);
+    }
+
+    return intent as CandidateIntent;
+  }
+}
@@ -0,0 +1,476 @@
+import { spawn } from 'child_process';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { isDeepStrictEqual } from 'util';
+import { IQuestion } from '../models/Question.js';
+import { logger } from '../utils/logger.js';
+
+export type CodeLanguage = 'javascript' | 'typescript' | 'python';
+
+export const CODE_LANGUAGES: CodeLanguage[] = ['javascript', 'typescript', 'python'];
+
+export interface TestCase {
+  name?: string;
+  args: unknown[]; // Passed to the entry point as positional arguments
+  expected: unknown; // Compared to the JSON-serialized return value
+  hidden?: boolean; // Only run on submit, and never shown to the candidate
+}
+
+export interface TestOutcome {
+  index: number;
+  name?: string;
+  hidden: boolean;
+  passed: boolean;
+  args?: unknown[];
+  expected?: unknown;
+  actual?: unknown;
+  error?: string;
+  duration_ms?: number;
+}
+
+export interface CodeRunResult {
+  language: CodeLanguage;
+  passed: number;
+  total: number;
+  outcomes: TestOutcome[];
+  stdout: string; // The candidate's own prints, truncated
+  error?: string; // Compile error, crash, or a time or memory limit
+  timed_out: boolean;
+  duration_ms: number;
+}
+
+/**
+ * The candidate's latest code for a question, as kept in questionHistory
+ */
+export interface CodeSubmission {
+  language: CodeLanguage;
+  source: string;
+  runs: number;
+  submitted: boolean;
+  result?: CodeRunResult;
+}
+
+const ENTRY_POINT = /^[A-Za-z_$][\w$]*$/;
+const MAX_CODE_LENGTH = 50_000;
+const MAX_OUTPUT_BYTES = 10_000;
+const MAX_FILE_KB = 1024;
+const MAX_OPEN_FILES = 64;
+// Data segment Node needs on top of the configured heap
+const NODE_RUNTIME_MB = 128;
+
+interface RunLimits {
+  timeoutMs: number;
+  memoryMb: number;
+  concurrency: number;
+  wrapper: string[]; // OS sandbox command prefix; {dir} is replaced with the run directory
+}
+
+interface Program {
+  command: string;
+  args: string[];
+  ulimits: string[]; // Runtime-specific memory limit, as ulimit options
+}
+
+// Runs in progress across all interviews on this node
+let activeRuns = 0;
+
+/**
+ * Coding questions with tests are answered in the editor; without tests they are asked by voice
+ */
+export function isCoding(question: Pick<IQuestion, 'category' | 'entry_point' | 'test_cases'>): boolean {
+  return question.category === 'coding' && Boolean(question.entry_point) && Boolean(question.test_cases?.length);
+}
+
+/**
+ * A test outcome with the details of hidden tests removed, for the candidate
+ */
+export function publicOutcome(outcome: TestOutcome): TestOutcome {
+  if (!outcome.hidden) return outcome;
+  return { index: outcome.index, name: outcome.name, hidden: true, passed: outcome.passed, duration_ms: outcome.duration_ms };
+}
+
+/**
+ * Runs candidate code against test cases in a separate process group.
+ * The child only gets the test arguments; expected values stay here and
+ * results are compared in this process, so nothing the child writes can
+ * pass a test it did not pass.
+ *
+ * Layers, from inside out:
+ * - Node runs under the permission model, reading only its own directory,
+ *   with no child processes, workers or native addons
+ * - Python runs isolated, with an audit hook that blocks files outside its
+ *   directory, processes, sockets and ctypes
+ * - rlimits on CPU time, memory, file size and open files, an empty
+ *   environment, and a wall-clock limit that kills the whole process group
+ * - CODE_RUN_WRAPPER, if set, prefixes the command with an OS sandbox
+ *   (nsjail, bwrap, firejail); use one when untrusted users can reach the backend
+ */
+export class SandboxedCodeRunner {
+  async run(
+    source: string,
+    language: CodeLanguage,
+    entryPoint: string,
+    tests: TestCase[],
+    onOutcome?: (outcome: TestOutcome) => void
+  ): Promise<CodeRunResult> {
+    const started = Date.now();
+    const failed = (error: string): CodeRunResult => ({
+      language,
+      passed: 0,
+      total: tests.length,
+      outcomes: tests.map((test, index) => ({ index, name: test.name, hidden: Boolean(test.hidden), passed: false })),
+      stdout: '',
+      error,
+      timed_out: false,
+      duration_ms: Date.now() - started,
+    });
+
+    if (!ENTRY_POINT.test(entryPoint)) {
+      return failed(`Invalid entry point "${entryPoint}"`);
+    }
+    if (source.length > MAX_CODE_LENGTH) {
+      return failed(`Code is longer than ${MAX_CODE_LENGTH} characters`);
+    }
+
+    const limits = this.limits();
+    if (activeRuns >= limits.concurrency) {
+      return failed('Too many code runs in progress, try again in a moment');
+    }
+
+    activeRuns++;
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'code-run-'));
+    try {
+      let program: Program;
+      try {
+        program = await this.prepare(dir, source, language, entryPoint, limits);
+      } catch (error) {
+        return failed((error as Error).message);
+      }
+
+      return await this.execute(program, dir, language, tests, limits, started, onOutcome);
+    } finally {
+      activeRuns--;
+      await rm(dir, { recursive: true, force: true }).catch(error =>
+        logger.warn(`[CodeRunner] Failed to remove ${dir}:`, error)
+      );
+    }
+  }
+
+  // Read lazily so values from .env are picked up
+  private limits(): RunLimits {
+    return {
+      timeoutMs: Number(process.env.CODE_RUN_TIMEOUT_MS) || 5000,
+      memoryMb: Number(process.env.CODE_RUN_MEMORY_MB) || 128,
+      concurrency: Number(process.env.CODE_RUN_CONCURRENCY) || 2,
+      wrapper: (process.env.CODE_RUN_WRAPPER || '').split(/\s+/).filter(Boolean),
+    };
+  }
+
+  /**
+   * Write the harness and the candidate code (a separate module, so it
+   * cannot reach the harness's variables)
+   */
+  private async prepare(
+    dir: string,
+    source: string,
+    language: CodeLanguage,
+    entryPoint: string,
+    limits: RunLimits
+  ): Promise<Program> {
+    if (language === 'python') {
+      await writeFile(path.join(dir, 'solution.py'), source);
+      await writeFile(path.join(dir, 'main.py'), pythonHarness(entryPoint));
+      return {
+        command: process.env.CODE_RUN_PYTHON || 'python3',
+        args: ['-I', '-B', '-S', path.join(dir, 'main.py')],
+        // Python's address space stays small, so limit all of it
+        ulimits: [`-v ${limits.memoryMb * 1024}`],
+      };
+    }
+
+    let code = source;
+    if (language === 'typescript') {
+      const ts = (await import('typescript')).default;
+      const output = ts.transpileModule(source, {
+        compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+        reportDiagnostics: true,
+      });
+      const diagnostic = output.diagnostics?.[0];
+      if (diagnostic) {
+        const line = diagnostic.file && diagnostic.start !== undefined
+          ? ` (line ${diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start).line + 1})`
+          : '';
+        throw new Error(`TypeScript error${line}: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`);
+      }
+      code = output.outputText;
+    }
+
+    await writeFile(
+      path.join(dir, 'solution.mjs'),
+      `${code}\n\nexport default typeof ${entryPoint} === 'function' ? ${entryPoint} : undefined;\n`
+    );
+    await writeFile(path.join(dir, 'main.mjs'), javascriptHarness(entryPoint));
+
+    // Node 20 and early 22 only know the experimental flag
+    const permission = process.allowedNodeEnvironmentFlags.has('--permission') ? '--permission' : '--experimental-permission';
+    return {
+      command: process.execPath,
+      args: [
+        permission,
+        `--allow-fs-read=${dir}${path.sep}`,
+        '--no-warnings',
+        `--max-old-space-size=${limits.memoryMb}`,
+        path.join(dir, 'main.mjs'),
+      ],
+      // V8 reserves far more address space than it uses, so limit the data segment
+      // instead; it covers the heap and Buffers, plus room for the runtime itself
+      ulimits: [`-d ${(limits.memoryMb + NODE_RUNTIME_MB) * 1024}`],
+    };
+  }
+
+  private execute(
+    program: Program,
+    dir: string,
+    language: CodeLanguage,
+    tests: TestCase[],
+    limits: RunLimits,
+    started: number,
+    onOutcome?: (outcome: TestOutcome) => void
+  ): Promise<CodeRunResult> {
+    // Hidden test arguments must not come back through prints or crash output
+    const hasHidden = tests.some(test => test.hidden);
+    const cpuSeconds = Math.ceil(limits.timeoutMs / 1000) + 1;
+    const shell = [
+      `ulimit -t ${cpuSeconds}`,
+      `ulimit -f ${MAX_FILE_KB}`,
+      `ulimit -n ${MAX_OPEN_FILES}`,
+      ...program.ulimits.map(limit => `ulimit ${limit}`),
+      'exec "$0" "$@"',
+    ].join('; ');
+    const command = [...limits.wrapper.map(part => part.split('{dir}').join(dir)), program.command, ...program.args];
+
+    return new Promise(resolve => {
+      // Own process group, so the time limit kills anything the code started
+      // fd 3 carries test results so they don't mix with the candidate's own prints
+      const child = spawn('/bin/sh', ['-c', shell, ...command], {
+        cwd: dir,
+        env: { PATH: process.env.PATH ?? '', PYTHONIOENCODING: 'utf-8' },
+        stdio: ['pipe', 'pipe', 'pipe', 'pipe'],
+        detached: true,
+      });
+
+      const killGroup = () => {
+        try {
+          if (child.pid) process.kill(-child.pid, 'SIGKILL');
+        } catch {
+          // Already gone
+        }
+      };
+
+      const outcomes = new Map<number, TestOutcome>();
+      let stdout = '';
+      let stderr = '';
+      let results = '';
+      let timedOut = false;
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        killGroup();
+      }, limits.timeoutMs);
+
+      // Only the arguments go to the child
+      child.stdin!.on('error', () => {});
+      child.stdin!.end(JSON.stringify(tests.map(test => test.args)));
+
+      child.stdout!.on('data', (chunk: Buffer) => {
+        if (stdout.length < MAX_OUTPUT_BYTES) stdout += chunk.toString();
+      });
+      child.stderr!.on('data', (chunk: Buffer) => {
+        if (stderr.length < MAX_OUTPUT_BYTES) stderr += chunk.toString();
+      });
+      (child.stdio[3] as NodeJS.ReadableStream).on('data', (chunk: Buffer) => {
+        results += chunk.toString();
+        const lines = results.split('\n');
+        results = lines.pop() ?? '';
+        for (const line of lines) {
+          const outcome = this.parseOutcome(line, tests);
+          if (outcome && !outcomes.has(outcome.index)) {
+            outcomes.set(outcome.index, outcome);
+            onOutcome?.(outcome);
+          }
+        }
+      });
+
+      // Reap anything left in the group once the runtime itself exits
+      child.on('exit', killGroup);
+
+      child.on('error', error => {
+        clearTimeout(timer);
+        logger.error(`[CodeRunner] Failed to start ${program.command}:`, error);
+        resolve({
+          language,
+          passed: 0,
+          total: tests.length,
+          outcomes: [],
+          stdout: '',
+          error: `Could not start the ${language} runtime`,
+          timed_out: false,
+          duration_ms: Date.now() - started,
+        });
+      });
+
+      child.on('close', (code, signal) => {
+        clearTimeout(timer);
+
+        let error: string | undefined;
+        if (timedOut || signal === 'SIGXCPU') {
+          error = `Time limit exceeded (${limits.timeoutMs} ms)`;
+        } else if (/heap out of memory|MemoryError|Array buffer allocation failed/.test(stderr)) {
+          error = 'Memory limit exceeded';
+        } else if (code !== 0) {
+          // Once tests have run, crash output could carry hidden arguments
+          const detailed = !hasHidden || outcomes.size === 0;
+          error = (detailed && this.crashMessage(stderr, dir)) || `Exited with ${signal ?? `code ${code}`}`;
+        }
+
+        // Tests that never reported were cut short by the error
+        const all = tests.map((test, index) => outcomes.get(index) ?? {
+          index,
+          name: test.name,
+          hidden: Boolean(test.hidden),
+          passed: false,
+          args: test.args,
+          expected: test.expected,
+          error: error ?? 'No result',
+        });
+
+        resolve({
+          language,
+          passed: all.filter(o => o.passed).length,
+          total: tests.length,
+          outcomes: all,
+          stdout: hasHidden ? '' : stdout.slice(0, MAX_OUTPUT_BYTES),
+          error,
+          timed_out: timedOut,
+          duration_ms: Date.now() - started,
+        });
+      });
+    });
+  }
+
+  /**
+   * The error line from a crash (last one, as Python tracebacks end with it), without temp paths
+   */
+  private crashMessage(stderr: string, dir: string): string {
+    const lines = stderr.split(dir + path.sep).join('').trim().split('\n');
+    const errorLine = [...lines].reverse().find(line => /^\w*(Error|Exception)\b/.test(line.trim()));
+    return errorLine?.trim() ?? lines.slice(-5).join('\n');
+  }
+
+  /**
+   * One result line from the child; the pass/fail decision is made here
+   */
+  private parseOutcome(line: string, tests: TestCase[]): TestOutcome | null {
+    try {
+      const raw = JSON.parse(line);
+      const test = Number.isInteger(raw?.index) ? tests[raw.index] : undefined;
+      if (!test) return null;
+
+      const error = typeof raw.error === 'string' ? raw.error.slice(0, 1000) : undefined;
+      // Expected values come from Mongo (Mixed), so normalize them the same way as the actual value
+      const expected = test.expected === undefined ? null : JSON.parse(JSON.stringify(test.expected));
+      return {
+        index: raw.index,
+        name: test.name,
+        hidden: Boolean(test.hidden),
+        passed: error === undefined && 'actual' in raw && isDeepStrictEqual(raw.actual, expected),
+        args: test.args,
+        expected: test.expected,
+        actual: raw.actual,
+        error,
+        duration_ms: typeof raw.duration_ms === 'number' ? Math.round(raw.duration_ms) : undefined,
+      };
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Reads the arguments from stdin, then loads the candidate module and calls the entry point
+ */
+function javascriptHarness(entryPoint: string): string {
+  return `import { readFileSync, writeSync } from 'node:fs';
+const stringify = JSON.stringify;
+const parse = JSON.parse;
+const now = performance.now.bind(performance);
+const clone = structuredClone;
+const tests = parse(readFileSync(0, 'utf8'));
+const { default: entry } = await import('./solution.mjs');
+for (let index = 0; index < tests.length; index++) {
+  const started = now();
+  let result;
+  try {
+    if (typeof entry !== 'function') throw new Error('${entryPoint} is not defined as a function');
+    const value = await entry(...clone(tests[index]));
+    result = { index, actual: value === undefined ? null : parse(stringify(value)) };
+  } catch (error) {
+    result = { index, error: String(error instanceof Error ? error.message : error) };
+  }
+  writeSync(3, stringify({ ...result, duration_ms: now() - started }) + '\\n');
+}
+`;
+}
+
+/**
+ * Reads the arguments and the candidate code, installs the audit hook, then runs the code
+ * in its own namespace; audit hooks cannot be removed once added
+ */
+function pythonHarness(entryPoint: string): string {
+  return `import json, os, resource, sys, time
+
+def main():
+    root = os.path.dirname(os.path.abspath(__file__))
+    tests = json.loads(sys.stdin.read())
+    with open(os.path.join(root, 'solution.py'), encoding='utf-8') as file:
+        source = file.read()
+
+    resource.setrlimit(resource.RLIMIT_NPROC, (0, 0))
+    readable = tuple(os.path.realpath(p) + os.sep for p in sys.path if p) + (root + os.sep,)
+    blocked = ('subprocess.', 'os.system', 'os.exec', 'os.fork', 'os.posix_spawn', 'os.spawn', 'os.kill', 'os.remove', 'os.rename', 'os.rmdir', 'os.mkdir', 'os.chmod',
+               'os.link', 'os.symlink', 'os.truncate', 'os.putenv', 'shutil.', 'pty.', 'socket.', 'ctypes.',
+               'sys._current_frames', 'gc.', 'resource.')
+    write_flags = os.O_WRONLY | os.O_RDWR | os.O_CREAT | os.O_APPEND | os.O_TRUNC
+
+    def audit(event, args):
+        if event.startswith(blocked):
+            raise PermissionError(f'{event} is not allowed here')
+        if event in ('open', 'os.listdir', 'os.scandir'):
+            path = args[0]
+            if isinstance(path, int):
+                return
+            # The import system lists directories too
+            writing = event == 'open' and ((args[1] and any(c in args[1] for c in 'wax+')) or (args[2] or 0) & write_flags)
+            if writing or not (os.path.realpath(path or '.') + os.sep).startswith(readable):
+                raise PermissionError(f'Access to {path} is not allowed here')
+
+    sys.addaudithook(audit)
+
+    namespace = {'__name__': 'solution'}
+    exec(compile(source, 'solution.py', 'exec'), namespace)
+    entry = namespace.get('${entryPoint}')
+    for index, args in enumerate(tests):
+        started = time.perf_counter()
+        try:
+            if not callable(entry):
+                raise NameError("${entryPoint} is not defined as a function")
+            result = {'index': index, 'actual': json.loads(json.dumps(entry(*args)))}
+        except BaseException as error:
+            result = {'index': index, 'error': f'{type(error).__name__}: {error}'}
+        result['duration_ms'] = (time.perf_counter() - started) * 1000
+        os.write(3, (json.dumps(result) + '\\n').encode())
+
+main()
+`;
+}
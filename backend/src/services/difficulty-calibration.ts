@@ -0,0 +1,171 @@
+import Interview from '../models/Interview.js';
+import Question, { IQuestion } from '../models/Question.js';
+import { logger } from '../utils/logger.js';
+
+type Difficulty = IQuestion['difficulty'];
+
+// Fewer scored answers than this say more about the candidates than the question
+const MIN_RESPONSES = 10;
+
+// Mean question score (0-100) at or above which a question counts as easy / medium
+const EASY_MEAN_SCORE = 70;
+const MEDIUM_MEAN_SCORE = 45;
+
+// Questions that barely separate strong from weak candidates
+const LOW_DISCRIMINATION = 0.2;
+
+export interface CalibrationEstimate {
+  question_id: number;
+  difficulty: Difficulty;
+  mean_score: number;
+  discrimination: number | null;
+  responses: number;
+}
+
+export interface CalibrationSummary {
+  interviews: number;
+  calibrated: number;
+  disagreements: number;
+}
+
+// Running sums for the mean and the item/rest-score correlation
+interface ResponseStats {
+  n: number;
+  sumScore: number;
+  paired: number;
+  sx: number;
+  sy: number;
+  sxx: number;
+  syy: number;
+  sxy: number;
+}
+
+/**
+ * Difficulty label implied by how candidates actually score on a question
+ */
+export function difficultyForMeanScore(meanScore: number): Difficulty {
+  if (meanScore >= EASY_MEAN_SCORE) return 'easy';
+  if (meanScore >= MEDIUM_MEAN_SCORE) return 'medium';
+  return 'hard';
+}
+
+/**
+ * Calibrated difficulty when the question has one, otherwise its hand-assigned label
+ */
+export function effectiveDifficulty(question: Pick<IQuestion, 'difficulty' | 'calibration'>): Difficulty {
+  return question.calibration?.difficulty ?? question.difficulty;
+}
+
+export function isLowDiscrimination(discrimination: number | null | undefined): boolean {
+  return discrimination !== null && discrimination !== undefined && discrimination < LOW_DISCRIMINATION;
+}
+
+function pearson(stats: ResponseStats): number | null {
+  const { paired: n, sx, sy, sxx, syy, sxy } = stats;
+  if (n < MIN_RESPONSES) return null;
+  const cov = n * sxy - sx * sy;
+  const varX = n * sxx - sx * sx;
+  const varY = n * syy - sy * sy;
+  if (varX <= 0 || varY <= 0) return null;
+  return cov / Math.sqrt(varX * varY);
+}
+
+/**
+ * Estimates each question's difficulty and discrimination from stored answer scores
+ *
+ * Difficulty is the mean question score, with skipped questions counted as 0.
+ * Discrimination is the correlation between the score on a question and the
+ * candidate's mean score on the rest of the interview.
+ */
+export class DifficultyCalibrator {
+  /**
+   * Estimates for every question with enough scored answers
+   */
+  async estimate(): Promise<{ interviews: number; estimates: CalibrationEstimate[] }> {
+    const stats = new Map<number, ResponseStats>();
+    let interviews = 0;
+
+    const cursor = Interview.find(
+      { status: { $in: ['completed', 'abandoned'] }, 'questionHistory.0': { $exists: true } },
+      { 'questionHistory.question_id': 1, 'questionHistory.skipped': 1, 'questionHistory.evaluation.question_score': 1 }
+    ).lean().cursor();
+
+    for await (const interview of cursor) {
+      const scores = interview.questionHistory
+        .map(item => ({
+          question_id: item.question_id,
+          score: item.skipped ? 0 : item.evaluation?.question_score,
+        }))
+        .filter((item): item is { question_id: number; score: number } => typeof item.score === 'number');
+      if (scores.length === 0) continue;
+      interviews++;
+
+      const total = scores.reduce((sum, item) => sum + item.score, 0);
+      for (const { question_id, score } of scores) {
+        const s = stats.get(question_id) ?? { n: 0, sumScore: 0, paired: 0, sx: 0, sy: 0, sxx: 0, syy: 0, sxy: 0 };
+        s.n++;
+        s.sumScore += score;
+
+        // Rest score excludes this answer so the question is not correlated with itself
+        if (scores.length > 1) {
+          const rest = (total - score) / (scores.length - 1);
+          s.paired++;
+          s.sx += score;
+          s.sy += rest;
+          s.sxx += score * score;
+          s.syy += rest * rest;
+          s.sxy += score * rest;
+        }
+        stats.set(question_id, s);
+      }
+    }
+
+    const estimates = Array.from(stats.entries())
+      .filter(([, s]) => s.n >= MIN_RESPONSES)
+      .map(([question_id, s]) => {
+        const meanScore = s.sumScore / s.n;
+        const discrimination = pearson(s);
+        return {
+          question_id,
+          difficulty: difficultyForMeanScore(meanScore),
+          mean_score: Math.round(meanScore * 10) / 10,
+          discrimination: discrimination === null ? null : Math.round(discrimination * 100) / 100,
+          responses: s.n,
+        };
+      });
+
+    return { interviews, estimates };
+  }
+
+  /**
+   * Recompute and store calibration for the whole bank
+   */
+  async calibrate(): Promise<CalibrationSummary> {
+    const { interviews, estimates } = await this.estimate();
+    const calibratedAt = new Date();
+
+    if (estimates.length > 0) {
+      await Question.bulkWrite(estimates.map(({ question_id, ...estimate }) => ({
+        updateOne: {
+          filter: { question_id },
+          update: { $set: { calibration: { ...estimate, calibrated_at: calibratedAt } } },
+        },
+      })), { ordered: false });
+    }
+
+    // Questions whose answers have since been deleted fall back to their label
+    await Question.updateMany(
+      { calibration: { $exists: true }, question_id: { $nin: estimates.map(e => e.question_id) } },
+      { $unset: { calibration: 1 } }
+    );
+
+    const labels = new Map(
+      (await Question.find({ question_id: { $in: estimates.map(e => e.question_id) } }, { question_id: 1, difficulty: 1 }).lean())
+        .map(q => [q.question_id, q.difficulty])
+    );
+    const disagreements = estimates.filter(e => labels.has(e.question_id) && labels.get(e.question_id) !== e.difficulty).length;
+
+    logger.info(`[Calibration] Calibrated ${estimates.length} questions from ${interviews} interviews; ${disagreements} disagree with their label`);
+    return { interviews, calibrated: estimates.length, disagreements };
+  }
+}
@@ -0,0 +1,111 @@
+import OpenAI from 'openai';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Turns text into vectors; implementations are interchangeable as long as
+ * vectors are only compared with vectors from the same model
+ */
+export interface EmbeddingProvider {
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// OpenAI accepts up to 2048 inputs per request; keep batches modest
+const OPENAI_BATCH_SIZE = 100;
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  private openai: OpenAI;
+
+  constructor(model = 'text-embedding-3-small') {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error('OPENAI_API_KEY is not defined');
+    }
+    this.openai = new OpenAI({ apiKey });
+    this.model = `openai/${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += OPENAI_BATCH_SIZE) {
+      const response = await this.openai.embeddings.create({
+        model: this.model.replace('openai/', ''),
+        input: texts.slice(i, i + OPENAI_BATCH_SIZE),
+      });
+      vectors.push(...response.data.sort((a, b) => a.index - b.index).map(d => d.embedding));
+    }
+    return vectors;
+  }
+}
+
+type FeatureExtractor = (texts: string[], options: { pooling: 'mean'; normalize: boolean }) => Promise<{ tolist(): number[][] }>;
+
+/**
+ * Runs a sentence-transformer model in-process, so no API calls are made
+ * The model is downloaded once and cached (TRANSFORMERS_CACHE)
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  private extractor: Promise<FeatureExtractor> | null = null;
+
+  constructor(private modelName = 'Xenova/all-MiniLM-L6-v2') {
+    this.model = `local/${modelName}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const extractor = await this.getExtractor();
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    return output.tolist();
+  }
+
+  private getExtractor(): Promise<FeatureExtractor> {
+    if (!this.extractor) {
+      this.extractor = import('@xenova/transformers')
+        .then(({ pipeline }) => pipeline('feature-extraction', this.modelName) as unknown as Promise<FeatureExtractor>)
+        .catch((error) => {
+          this.extractor = null;
+          throw error;
+        });
+      logger.info(`[Embeddings] Loading local model ${this.modelName}`);
+    }
+    return this.extractor;
+  }
+}
+
+let provider: EmbeddingProvider | null | undefined;
+
+/**
+ * Provider chosen by EMBEDDING_PROVIDER: "openai", "local" or "none"
+ * Returns null when semantic retrieval is switched off
+ */
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  if (provider !== undefined) {
+    return provider;
+  }
+
+  const choice = (process.env.EMBEDDING_PROVIDER || 'local').toLowerCase();
+  if (choice === 'openai') {
+    provider = new OpenAIEmbeddingProvider(process.env.EMBEDDING_MODEL || undefined);
+  } else if (choice === 'local') {
+    provider = new LocalEmbeddingProvider(process.env.EMBEDDING_MODEL || undefined);
+  } else {
+    provider = null;
+  }
+
+  logger.info(`[Embeddings] Using ${provider ? provider.model : 'no embedding provider'}`);
+  return provider;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
@@ -0,0 +1,100 @@
+import { IQuestion } from '../models/Question.js';
+import { logger } from '../utils/logger.js';
+
+export interface SelectedFollowUp {
+  index: number;
+  trigger_condition: string;
+  question_text: string;
+}
+
+interface FollowUpEvaluation {
+  completeness_score: number;
+  key_points_missed: string[];
+  triggered_follow_ups: number[];
+}
+
+// Words in a trigger condition that signal "the candidate left something out"
+const NEGATIVE_CUES = ['miss', "doesn't", 'does not', 'not ', 'no ', 'without', 'lacks', 'fails', 'incomplete', 'omits'];
+
+// Words in a trigger condition that signal "the candidate struggled overall"
+const STRUGGLE_CUES = ['struggl', 'shallow', 'vague', 'weak', 'low score', 'incomplete answer'];
+
+const STOPWORDS = new Set(['the', 'and', 'for', 'with', 'that', 'this', 'from', 'mention', 'mentions', 'missed', 'does', 'not']);
+
+/**
+ * Picks databank follow-up questions whose trigger condition was met
+ */
+export class FollowUpSelector {
+  constructor(private maxDepth: number = 2) {}
+
+  /**
+   * Select the next follow-up for a question, or null if none applies
+   * or the depth cap has been reached
+   */
+  select(
+    question: IQuestion,
+    evaluation: FollowUpEvaluation,
+    askedIndexes: number[],
+    maxDepth: number = this.maxDepth
+  ): SelectedFollowUp | null {
+    const followUps = question.follow_up_questions || [];
+    if (followUps.length === 0 || askedIndexes.length >= maxDepth) {
+      return null;
+    }
+
+    const isAvailable = (index: number) =>
+      index >= 0 && index < followUps.length && !askedIndexes.includes(index);
+
+    // Prefer the evaluator's judgement, fall back to deterministic matching
+    let index = evaluation.triggered_follow_ups.find(isAvailable);
+    if (index === undefined) {
+      index = followUps.findIndex((f, i) =>
+        isAvailable(i) && this.matchesCondition(f.trigger_condition, evaluation)
+      );
+    }
+
+    if (index === undefined || index < 0) {
+      return null;
+    }
+
+    const followUp = followUps[index];
+    logger.info(`[FollowUpSelector] Question ${question.question_id} triggered follow-up ${index}: "${followUp.trigger_condition}"`);
+
+    return {
+      index,
+      trigger_condition: followUp.trigger_condition,
+      question_text: followUp.question_text
+    };
+  }
+
+  /**
+   * Offline check of a free-text trigger condition against an evaluation
+   */
+  private matchesCondition(condition: string, evaluation: FollowUpEvaluation): boolean {
+    const normalized = ` ${condition.toLowerCase()} `;
+
+    if (STRUGGLE_CUES.some(cue => normalized.includes(cue))) {
+      return evaluation.completeness_score < 50;
+    }
+
+    if (!NEGATIVE_CUES.some(cue => normalized.includes(cue))) {
+      return false;
+    }
+
+    const conditionTokens = this.tokenize(condition);
+    return evaluation.key_points_missed.some(point => {
+      const pointTokens = this.tokenize(point);
+      if (pointTokens.length === 0) return false;
+      const overlap = pointTokens.filter(t => conditionTokens.includes(t)).length;
+      return overlap / pointTokens.length >= 0.5;
+    });
+  }
+
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .replace(/[^a-z0-9\s-]/g, ' ')
+      .split(/\s+/)
+      .filter(t => t.length > 2 && !STOPWORDS.has(t));
+  }
+}
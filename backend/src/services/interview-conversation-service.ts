@@ -1,7 +1,53 @@
 import OpenAI from 'openai';
 import { Socket } from 'socket.io';
 import { logger } from '../utils/logger.js';
-import Interview from '../models/Interview.js';
+import Interview, { InterviewResume, InterviewTemplateSnapshot, QuestionCategory } from '../models/Interview.js';
+import { IQuestion } from '../models/Question.js';
+import { HybridQuestionSelector, QuestionContext } from './questionSelector.js';
+import { findResumeReference } from './resume-parser.js';
+import { StreamingEvaluator, StreamingEvaluationResult } from './streaming-evaluator.js';
+import { FollowUpSelector } from './follow-up-selector.js';
+import { InterviewerPersona } from './interviewer-personas.js';
+import { CandidateIntent, CandidateIntentClassifier } from './candidate-intent.js';
+import { CriterionScore, overallScore } from './rubric-scoring.js';
+import { StarAnalysis, StarAnalyzer, StarComponent } from './star-analysis.js';
+import {
+  DESIGN_PHASES,
+  DesignPhaseRecord,
+  MAX_PHASE_TURNS,
+  designBudgetSeconds,
+  designPhase,
+  isSystemDesign,
+  nextDesignPhase,
+  phaseBudgetSeconds
+} from './system-design-phases.js';
+import {
+  CODE_LANGUAGES,
+  CodeLanguage,
+  CodeRunResult,
+  CodeSubmission,
+  SandboxedCodeRunner,
+  isCoding,
+  publicOutcome
+} from './code-runner.js';
+import { AdaptiveDifficultyEngine, InterviewStrategy, ScoredResponse } from './adaptive-engine.js';
+import {
+  StageTransition,
+  StageTransitionClassifier,
+  TRANSITION_CONFIDENCE_THRESHOLD,
+  TransitionStage
+} from './stage-transition-classifier.js';
+import {
+  SpeechTiming,
+  computeInterviewMetrics,
+  lastActivityAt,
+  questionDuration,
+  responseLatency
+} from './interview-metrics.js';
+
+// Reply length cap; system design phases need room for numbers and clarifications
+const REPLY_TOKENS = 200;
+const DESIGN_REPLY_TOKENS = 400;
 
 interface ConversationMessage {
   role: 'system' | 'user' | 'assistant';
@@ -33,11 +79,54 @@ interface InterviewFeedback {
   };
 }
 
+export interface AnswerEvaluationRecord {
+  completeness_score: number;
+  confidence_score: number;
+  key_points_covered: string[];
+  key_points_missed: string[];
+  criterion_scores: CriterionScore[];
+  question_score?: number; // Unset when the evaluator failed
+  star?: StarAnalysis;
+  feedback: string;
+  suggested_follow_up?: string;
+}
+
+export interface ActiveQuestion {
+  question: IQuestion;
+  text: string; // Wording actually asked (may be adapted)
+  was_modified: boolean;
+  modification_reason?: string;
+  resume_reference?: string; // Set when the wording asks about the candidate's resume
+  asked_at: Date;
+}
+
+export interface ActiveDesign {
+  question_id: number;
+  text: string; // Wording actually asked
+  budget_seconds: number; // Whole question, split across the phases
+}
+
+export interface ActiveCoding {
+  question_id: number;
+  text: string; // Wording actually asked
+}
+
+export interface PendingFollowUp {
+  index?: number; // Index into question.follow_up_questions; unset for STAR follow-ups
+  star_component?: StarComponent; // The missing STAR component a behavioral follow-up asks about
+  trigger_condition: string;
+  question_text: string;
+  asked_at: Date;
+}
+
 export interface InterviewContext {
   jobTitle: string;
   jobDescription: string;
   company: string;
   interviewId: string;
+  template?: InterviewTemplateSnapshot; // Persona, rubric and stage script, if created from a template
+  resume?: InterviewResume;
+  persona: InterviewerPersona; // Tone, acknowledgments, follow-up depth and voice
 
   // Extracted during background processing
   keyRequirements: string[];
@@ -45,24 +134,68 @@ export interface InterviewContext {
   softSkills: string[];
 
   // State tracking
-  stage: 'greeting' | 'small_talk' | 'ready_check' | 'interview' | 'closing';
+  stage: 'greeting' | 'small_talk' | 'ready_check' | 'interview' | 'closing' | 'completed';
   questionsAsked: number;
   maxQuestions: number;
+  targetDurationSeconds?: number;
+  startedAt: Date;
+  pausedAt: Date | null; // Set while the candidate is on a break
+  pausedSeconds: number; // Total break time, excluded from the time budget
   conversationHistory: ConversationMessage[];
 
+  // Databank questions selected at creation time, in rank order
+  questionPool: IQuestion[];
+  categoryQuotas?: Map<QuestionCategory, number> | null; // Questions to ask per category, from the mix
+  askedQuestionIds: number[];
+
   // Track Q&A for saving
   interviewQuestions: Array<{
+    question_id: number;
     question: string;
     answer: string;
     asked_at: Date;
+    was_modified: boolean;
+    modification_reason?: string;
+    resume_reference?: string;
+    evaluation?: AnswerEvaluationRecord;
+    speech?: SpeechTiming;
+    skipped?: boolean;
+    follow_ups: Array<{
+      question_text: string;
+      trigger_condition: string;
+      star_component?: StarComponent;
+      transcript: string;
+      asked_at: Date;
+      speech?: SpeechTiming;
+    }>;
+    follow_up_indexes: number[];
+    design_phases?: DesignPhaseRecord[]; // System design questions only
+    code?: CodeSubmission; // Coding questions only
   }>;
 
   // Track current question being asked
-  currentQuestion: string | null;
+  currentQuestion: ActiveQuestion | null;
+
+  // Databank follow-up awaiting an answer
+  currentFollowUp: PendingFollowUp | null;
+
+  // System design question still moving through its phases
+  currentDesign: ActiveDesign | null;
+
+  // Coding question open in the editor until the candidate submits
+  currentCoding: ActiveCoding | null;
 }
 
 export class InterviewConversationService {
   private openai: OpenAI;
+  private questionSelector = new HybridQuestionSelector();
+  private evaluator = new StreamingEvaluator();
+  private followUpSelector = new FollowUpSelector();
+  private intentClassifier = new CandidateIntentClassifier();
+  private transitionClassifier = new StageTransitionClassifier();
+  private adaptiveEngine = new AdaptiveDifficultyEngine();
+  private starAnalyzer = new StarAnalyzer();
+  private codeRunner = new SandboxedCodeRunner();
 
   constructor() {
     const apiKey = process.env.OPENAI_API_KEY;
@@ -132,7 +265,7 @@ Return as JSON: { "keyRequirements": ["..."], "technicalSkills": ["..."], "softS
       const stream = await this.openai.chat.completions.create({
         model: 'gpt-3.5-turbo',
         max_tokens: 150,
-        temperature: 0.7,
+        temperature: context.persona.temperature,
         stream: true,
         messages: [
           { role: 'system', content: systemPrompt },
@@ -185,35 +318,97 @@ Return as JSON: { "keyRequirements": ["..."], "technicalSkills": ["..."], "softS
   /**
    * Handle user response based on current stage
    */
-  async handleUserResponse(socket: Socket, userMessage: string, context: InterviewContext): Promise<void> {
+  async handleUserResponse(
+    socket: Socket,
+    userMessage: string,
+    context: InterviewContext,
+    speech?: SpeechTiming
+  ): Promise<void> {
     logger.info(`[InterviewService] Handling user response at stage: ${context.stage}`);
 
+    if (context.stage === 'completed') {
+      logger.warn('[InterviewService] Ignoring response after interview completed');
+      return;
+    }
+
     // Add user message to history
     context.conversationHistory.push({
       role: 'user',
       content: userMessage
     });
 
+    // Commands (repeat, skip, pause...) must not be recorded as answers
+    if (context.stage === 'interview') {
+      const pending = context.currentFollowUp?.question_text
+        ?? context.currentQuestion?.text
+        ?? context.currentDesign?.text
+        ?? context.currentCoding?.text;
+      if (pending || context.pausedAt) {
+        const intent = await this.intentClassifier.classify(userMessage, pending ?? '');
+        if (context.pausedAt || intent !== 'answer') {
+          await this.handleCommand(socket, context, intent);
+          return;
+        }
+      }
+    }
+
     // Save answer if we're in interview stage
-    if (context.stage === 'interview' && context.currentQuestion) {
-      context.interviewQuestions.push({
-        question: context.currentQuestion,
-        answer: userMessage,
-        asked_at: new Date()
-      });
-      context.currentQuestion = null;
+    if (context.stage === 'interview' && context.currentFollowUp) {
+      await this.recordFollowUpAnswer(socket, userMessage, context, speech);
+    } else if (context.stage === 'interview' && context.currentDesign) {
+      this.recordDesignTurn(userMessage, context);
+    } else if (context.stage === 'interview' && context.currentCoding) {
+      this.recordCodingTurn(userMessage, context);
+    } else if (context.stage === 'interview' && context.currentQuestion) {
+      const current = context.currentQuestion;
+      const record = this.openRecord(context, current, userMessage, speech);
+
+      if (isSystemDesign(current.question)) {
+        // Scored once every phase has run
+        this.startDesign(context, record, current);
+      } else if (isCoding(current.question)) {
+        // Scored on submit
+        this.startCoding(context, current);
+      } else {
+        const result = await this.evaluateAnswer(socket, record, current.question, userMessage, context);
+        this.queueFollowUp(context, current.question, record, result);
+      }
     }
 
     // Generate appropriate response
     await this.generateResponse(socket, context, userMessage);
   }
 
+  /**
+   * Record the answer to the pending question; the question stops being pending
+   */
+  private openRecord(
+    context: InterviewContext,
+    current: ActiveQuestion,
+    answer: string,
+    speech?: SpeechTiming
+  ): InterviewContext['interviewQuestions'][number] {
+    const record: InterviewContext['interviewQuestions'][number] = {
+      question_id: current.question.question_id,
+      question: current.text,
+      answer,
+      asked_at: current.asked_at,
+      was_modified: current.was_modified,
+      modification_reason: current.modification_reason,
+      resume_reference: current.resume_reference,
+      speech,
+      follow_ups: [],
+      follow_up_indexes: []
+    };
+    context.interviewQuestions.push(record);
+    context.currentQuestion = null;
+    return record;
+  }
+
   /**
    * Generate response based on current stage
    */
   private async generateResponse(socket: Socket, context: InterviewContext, userMessage: string): Promise<void> {
-    const systemPrompt = this.buildSystemPrompt(context);
-
     // Build user instruction based on stage
     let userInstruction = '';
 
@@ -221,33 +416,492 @@ Return as JSON: { "keyRequirements": ["..."], "technicalSkills": ["..."], "softS
       userInstruction = 'Briefly acknowledge their response (1 sentence), then ask if they are ready to start the interview.';
       context.stage = 'ready_check';
     } else if (context.stage === 'ready_check') {
-      if (this.isReadyConfirmation(userMessage)) {
-        userInstruction = 'They confirmed they are ready. Say "Perfect!" or similar, then ask your first interview question based on the job requirements and technical skills.';
-        context.stage = 'interview';
-        context.questionsAsked = 1;
+      const transition = await this.classifyTransition(context, 'ready_check', userMessage);
+      if (this.isConfident(transition, 'proceed')) {
+        const next = await this.prepareNextQuestion(context);
+        if (next) {
+          userInstruction = `They confirmed they are ready. Say "Perfect!" or similar, then ask the first interview question. You may rephrase it slightly so it sounds natural when spoken, but keep its meaning: "${next.text}"${this.askSuffix(next.question)}`;
+          context.stage = 'interview';
+          context.questionsAsked = 1;
+        } else {
+          userInstruction = 'There are no interview questions prepared. Apologize briefly, thank them for their time and say goodbye.';
+          context.stage = 'closing';
+        }
+      } else if (this.isConfident(transition, 'hold')) {
+        userInstruction = 'They are not ready yet. Respond briefly to anything they said, tell them to take their time, and ask them to let you know when they are ready to begin.';
       } else {
-        userInstruction = 'They seem not ready. Ask if they need anything or if they want to proceed anyway.';
+        userInstruction = 'It is not clear whether they are ready. Ask them to confirm, in one short sentence, whether they would like to start the interview now.';
       }
+    } else if (context.stage === 'interview' && context.currentDesign) {
+      userInstruction = await this.continueDesign(socket, context);
+    } else if (context.stage === 'interview' && context.currentCoding) {
+      userInstruction = 'The candidate is working on the coding question in the editor. Reply briefly (1-2 sentences) to what they said: answer questions about the problem and nudge their thinking, but never write or dictate code for them. If they say they are finished, ask them to press Submit.';
+    } else if (context.stage === 'interview' && context.currentFollowUp) {
+      userInstruction = `Briefly acknowledge their answer (1 sentence). Then ask this follow-up question to probe further. You may rephrase it slightly so it sounds natural when spoken, but keep its meaning: "${context.currentFollowUp.question_text}"`;
     } else if (context.stage === 'interview') {
-      if (context.questionsAsked < context.maxQuestions) {
-        userInstruction = `Briefly acknowledge their answer with a natural comment (1 sentence). Then ask your next interview question (question ${context.questionsAsked + 1} of ${context.maxQuestions}). Base the question on their previous answer - dive deeper if they were shallow, move to a different skill area if they were comprehensive.`;
-        context.questionsAsked++;
-      } else {
-        userInstruction = 'Briefly acknowledge their final answer. Thank them for their time, mention that the team will review their responses and get back to them. Wish them a great day. Keep it professional but warm.';
-        context.stage = 'closing';
-      }
+      userInstruction = await this.advanceInterview(
+        context,
+        'Briefly acknowledge their answer with a natural comment (1 sentence).',
+        'Briefly acknowledge their final answer.'
+      );
     } else if (context.stage === 'closing') {
-      // Check if user said goodbye
-      if (this.isGoodbyeConfirmation(userMessage)) {
+      const transition = await this.classifyTransition(context, 'closing', userMessage);
+      if (this.isConfident(transition, 'proceed')) {
         // User said goodbye - interview is done
         await this.completeInterview(socket, context);
         return;
+      } else if (this.isConfident(transition, 'hold')) {
+        userInstruction = 'Respond briefly to their comment or question (do not share scores or evaluate their answers), then ask if there is anything else before you wrap up.';
       } else {
-        // User said something else - acknowledge and close anyway
-        userInstruction = 'Briefly acknowledge their comment and say goodbye again.';
+        userInstruction = 'It is not clear whether they are finished. Ask them, in one short sentence, whether they are all set to end the interview.';
       }
     }
 
+    await this.streamInstruction(socket, context, userInstruction);
+  }
+
+  /**
+   * Move on to the next question, or to closing when the interview is over
+   */
+  private async advanceInterview(context: InterviewContext, lead: string, finalLead: string): Promise<string> {
+    const next = context.questionsAsked < context.maxQuestions && !this.isOutOfTime(context)
+      ? await this.prepareNextQuestion(context)
+      : null;
+
+    if (next) {
+      context.questionsAsked++;
+      return `${lead} Then ask the next interview question (question ${context.questionsAsked} of ${context.maxQuestions}). You may rephrase it slightly so it sounds natural when spoken, but keep its meaning: "${next.text}"${this.askSuffix(next.question)}`;
+    }
+
+    context.stage = 'closing';
+    return `${finalLead} Thank them for their time, mention that the team will review their responses and get back to them. Wish them a great day. Keep it professional but warm.`;
+  }
+
+  /**
+   * Extra instruction when asking a question that runs in phases
+   */
+  private askSuffix(question: IQuestion): string {
+    if (isSystemDesign(question)) {
+      return ` This is a system design question, so do not expect a quick answer. ${DESIGN_PHASES[0].opening}`;
+    }
+    if (isCoding(question)) {
+      return ` This is a coding question: tell them to write a function named ${question.entry_point} in the editor, run the tests when ready and talk through their approach as they go.`;
+    }
+    return '';
+  }
+
+  /**
+   * Open the requirements phase with the candidate's first answer to a system design question
+   */
+  private startDesign(
+    context: InterviewContext,
+    record: InterviewContext['interviewQuestions'][number],
+    current: ActiveQuestion
+  ): void {
+    const remaining = context.targetDurationSeconds
+      ? context.targetDurationSeconds - this.elapsedSeconds(context)
+      : undefined;
+    const budget = designBudgetSeconds(current.question, remaining);
+    const first = DESIGN_PHASES[0].phase;
+
+    record.design_phases = [{
+      phase: first,
+      budget_seconds: phaseBudgetSeconds(budget, first),
+      started_at: current.asked_at,
+      transcript: record.answer,
+      turns: 1
+    }];
+    context.currentDesign = {
+      question_id: current.question.question_id,
+      text: current.text,
+      budget_seconds: budget
+    };
+
+    logger.info(`[InterviewService] System design question ${current.question.question_id} started with a ${Math.round(budget / 60)} minute budget`);
+  }
+
+  /**
+   * Add a candidate turn to the running system design phase
+   */
+  private recordDesignTurn(userMessage: string, context: InterviewContext): void {
+    const record = context.interviewQuestions[context.interviewQuestions.length - 1];
+    const phase = record?.design_phases?.[record.design_phases.length - 1];
+    if (!record || !phase) {
+      return;
+    }
+
+    phase.transcript = phase.transcript ? `${phase.transcript}\n${userMessage}` : userMessage;
+    phase.turns++;
+    record.answer = record.design_phases!
+      .filter(p => p.transcript)
+      .map(p => `[${designPhase(p.phase).label}] ${p.transcript}`)
+      .join('\n\n');
+  }
+
+  /**
+   * Stay in the current design phase, open the next one, or finish the question
+   * A phase ends when its time budget or turn cap is used up
+   */
+  private async continueDesign(socket: Socket, context: InterviewContext): Promise<string> {
+    const design = context.currentDesign!;
+    const record = context.interviewQuestions[context.interviewQuestions.length - 1];
+    const phase = record?.design_phases?.[record.design_phases.length - 1];
+
+    if (phase) {
+      const definition = designPhase(phase.phase);
+      const phaseSeconds = (Date.now() - phase.started_at.getTime()) / 1000;
+      if (phaseSeconds < phase.budget_seconds && phase.turns < MAX_PHASE_TURNS && !this.isOutOfTime(context)) {
+        return `Respond to what they said as the interviewer in the ${definition.label} phase. ${definition.guidance} Stay in this phase and end by prompting them to continue.`;
+      }
+
+      phase.ended_at = new Date();
+      const next = nextDesignPhase(phase.phase);
+      if (next && !this.isOutOfTime(context)) {
+        record.design_phases!.push({
+          phase: next.phase,
+          budget_seconds: phaseBudgetSeconds(design.budget_seconds, next.phase),
+          started_at: new Date(),
+          transcript: '',
+          turns: 0
+        });
+        logger.info(`[InterviewService] System design question ${design.question_id} moving to ${next.phase}`);
+        return `Briefly acknowledge what they said (1 sentence), then move on to the ${next.label} phase. ${next.opening}`;
+      }
+    }
+
+    await this.finishDesign(socket, context);
+    return this.advanceInterview(
+      context,
+      'Briefly wrap up the design discussion (1 sentence).',
+      'Briefly wrap up the design discussion (1 sentence).'
+    );
+  }
+
+  /**
+   * Close the running design question and score its phases
+   */
+  private async finishDesign(socket: Socket, context: InterviewContext): Promise<void> {
+    const design = context.currentDesign;
+    if (!design) {
+      return;
+    }
+    context.currentDesign = null;
+
+    const record = context.interviewQuestions[context.interviewQuestions.length - 1];
+    const question = context.questionPool.find(q => q.question_id === design.question_id);
+    if (!record?.design_phases || !question) {
+      return;
+    }
+
+    const open = record.design_phases[record.design_phases.length - 1];
+    if (!open.ended_at) {
+      open.ended_at = new Date();
+    }
+
+    await this.evaluateAnswer(socket, record, question, record.answer, context);
+  }
+
+  /**
+   * Open the editor state for a coding question; spoken turns become the discussion
+   */
+  private startCoding(context: InterviewContext, current: ActiveQuestion): void {
+    context.currentCoding = {
+      question_id: current.question.question_id,
+      text: current.text
+    };
+    logger.info(`[InterviewService] Coding question ${current.question.question_id} opened in the editor`);
+  }
+
+  private recordCodingTurn(userMessage: string, context: InterviewContext): void {
+    const record = context.interviewQuestions[context.interviewQuestions.length - 1];
+    if (record) {
+      record.answer = record.answer ? `${record.answer}\n${userMessage}` : userMessage;
+    }
+  }
+
+  /**
+   * The record of the open coding question, opening it if the candidate runs code before speaking
+   */
+  private openCodingRecord(context: InterviewContext): InterviewContext['interviewQuestions'][number] | undefined {
+    if (context.stage !== 'interview') {
+      return undefined;
+    }
+    if (context.currentCoding) {
+      return context.interviewQuestions[context.interviewQuestions.length - 1];
+    }
+
+    const current = context.currentQuestion;
+    if (!current || context.currentFollowUp || !isCoding(current.question)) {
+      return undefined;
+    }
+    const record = this.openRecord(context, current, '');
+    this.startCoding(context, current);
+    return record;
+  }
+
+  /**
+   * Run the candidate's code for the open coding question, streaming each test result
+   * Run uses the visible tests; submit runs every test and closes the question
+   */
+  async runCode(
+    socket: Socket,
+    context: InterviewContext,
+    source: string,
+    language: CodeLanguage,
+    submit: boolean
+  ): Promise<void> {
+    const record = this.openCodingRecord(context);
+    const question = record && context.questionPool.find(q => q.question_id === record.question_id);
+    if (!record || !question?.entry_point) {
+      socket.emit('code_run_error', { message: 'There is no coding question open' });
+      return;
+    }
+
+    const tests = (question.test_cases ?? [])
+      .filter(t => submit || !t.hidden)
+      .map(t => ({ name: t.name, args: t.args, expected: t.expected, hidden: t.hidden }));
+    socket.emit('code_run_started', { submit, total: tests.length });
+
+    const result = await this.codeRunner.run(source, language, question.entry_point, tests, outcome => {
+      socket.emit('code_test_result', publicOutcome(outcome));
+    });
+    record.code = {
+      language,
+      source,
+      runs: (record.code?.runs ?? 0) + 1,
+      submitted: submit,
+      result
+    };
+    socket.emit('code_run_complete', { ...result, outcomes: result.outcomes.map(publicOutcome), submitted: submit });
+
+    const summary = this.describeRun(result);
+    logger.info(`[InterviewService] Question ${question.question_id} ${submit ? 'submitted' : 'run'} in ${language}: ${summary}`);
+    context.conversationHistory.push({ role: 'user', content: `(${submit ? 'Submitted' : 'Ran'} their code: ${summary})` });
+
+    let userInstruction: string;
+    if (submit) {
+      await this.finishCoding(socket, context);
+      const lead = `The candidate submitted their code (${summary}). Acknowledge it in one sentence without judging it.`;
+      userInstruction = await this.advanceInterview(context, lead, lead);
+    } else if (result.error || result.passed < result.total) {
+      userInstruction = `The candidate ran their code: ${summary}. ${this.describeFailure(result)} Talk through the failure out loud in 1-2 sentences: say what the failing case suggests without giving the fix, and ask what they think is going on.`;
+    } else {
+      userInstruction = `The candidate ran their code and all ${result.total} visible tests pass. Say so briefly, ask about its time and space complexity, and remind them to press Submit when they are happy - hidden tests run on submit.`;
+    }
+
+    await this.streamInstruction(socket, context, userInstruction);
+  }
+
+  private describeRun(result: CodeRunResult): string {
+    return `${result.passed} of ${result.total} tests passed${result.error ? ` (${result.error.split('\n')[0]})` : ''}`;
+  }
+
+  private describeFailure(result: CodeRunResult): string {
+    const failed = result.outcomes.find(o => !o.passed);
+    if (!failed) return '';
+    if (failed.hidden) return 'A hidden test failed.';
+
+    const got = failed.error ? `it raised "${failed.error}"` : `it returned ${JSON.stringify(failed.actual)}`;
+    return `For input ${JSON.stringify(failed.args)} the expected result was ${JSON.stringify(failed.expected)}, but ${got}.`;
+  }
+
+  /**
+   * Close the open coding question and score the code with the discussion
+   * Nothing written or said counts as a skip
+   */
+  private async finishCoding(socket: Socket, context: InterviewContext): Promise<void> {
+    const coding = context.currentCoding;
+    if (!coding) {
+      return;
+    }
+    context.currentCoding = null;
+    socket.emit('coding_question_closed', { question_id: coding.question_id });
+
+    const record = context.interviewQuestions[context.interviewQuestions.length - 1];
+    const question = context.questionPool.find(q => q.question_id === coding.question_id);
+    if (!record || !question) {
+      return;
+    }
+    if (!record.code && !record.answer.trim()) {
+      record.skipped = true;
+      return;
+    }
+
+    const answer = record.code
+      ? `${record.answer || '(no spoken explanation)'}\n\nCODE (${record.code.language}):\n${record.code.source}\n\nTEST RESULTS: ${record.code.result ? this.describeRun(record.code.result) : 'not run'}${record.code.submitted ? '' : ' (visible tests only, not submitted)'}`
+      : record.answer;
+    await this.evaluateAnswer(socket, record, question, answer, context);
+  }
+
+  /**
+   * Close the editor for a coding question that is dropped before any answer
+   */
+  private closeUnansweredCoding(socket: Socket, context: InterviewContext): void {
+    if (context.currentQuestion && isCoding(context.currentQuestion.question)) {
+      socket.emit('coding_question_closed', { question_id: context.currentQuestion.question.question_id });
+    }
+  }
+
+  /**
+   * Open (or refresh) the candidate's editor while a coding question is pending
+   */
+  private emitCodingQuestion(socket: Socket, context: InterviewContext): void {
+    if (context.stage !== 'interview') return;
+
+    const pending = context.currentQuestion && isCoding(context.currentQuestion.question)
+      ? { question_id: context.currentQuestion.question.question_id, text: context.currentQuestion.text }
+      : context.currentCoding;
+    const question = pending && context.questionPool.find(q => q.question_id === pending.question_id);
+    if (!pending || !question?.test_cases) {
+      return;
+    }
+
+    const code = context.currentCoding ? context.interviewQuestions[context.interviewQuestions.length - 1]?.code : undefined;
+    socket.emit('coding_question', {
+      question_id: pending.question_id,
+      text: pending.text,
+      entry_point: question.entry_point,
+      languages: CODE_LANGUAGES,
+      starter_code: {
+        javascript: question.starter_code?.javascript,
+        typescript: question.starter_code?.typescript,
+        python: question.starter_code?.python
+      },
+      examples: question.test_cases
+        .filter(t => !t.hidden)
+        .map(t => ({ name: t.name, args: t.args, expected: t.expected })),
+      hidden_tests: question.test_cases.filter(t => t.hidden).length,
+      code: code && { language: code.language, source: code.source }
+    });
+  }
+
+  /**
+   * Act on a candidate request instead of recording it as an answer
+   */
+  private async handleCommand(socket: Socket, context: InterviewContext, intent: CandidateIntent): Promise<void> {
+    logger.info(`[InterviewService] Candidate command: ${intent}${context.pausedAt ? ' (paused)' : ''}`);
+
+    const pendingText = context.currentFollowUp?.question_text
+      ?? context.currentQuestion?.text
+      ?? context.currentDesign?.text
+      ?? context.currentCoding?.text;
+    let userInstruction: string;
+
+    if (context.pausedAt && intent !== 'end') {
+      // Anything said during a break resumes the interview
+      this.resumeFromPause(socket, context);
+      userInstruction = pendingText
+        ? `The candidate is back from a short break. Welcome them back in one short sentence, then repeat the question you were on: "${pendingText}"`
+        : 'The candidate is back from a short break. Welcome them back in one short sentence and ask them to continue.';
+    } else if (intent === 'repeat') {
+      userInstruction = `The candidate asked you to repeat the question. Say "Sure" or similar, then repeat it word for word: "${pendingText}"`;
+    } else if (intent === 'clarify') {
+      userInstruction = `The candidate asked you to clarify the question. Rephrase it in simpler, more concrete words without hinting at the answer: "${pendingText}"`;
+    } else if (intent === 'skip') {
+      userInstruction = await this.skipCurrentQuestion(socket, context);
+    } else if (intent === 'pause') {
+      context.pausedAt = new Date();
+      socket.emit('interview_paused', { pausedAt: context.pausedAt.toISOString() });
+      userInstruction = 'The candidate asked for a short break. Tell them that is no problem and to just say something when they are ready to continue. One or two short sentences.';
+    } else {
+      if (context.pausedAt) {
+        this.resumeFromPause(socket, context);
+      }
+      await this.finishDesign(socket, context);
+      await this.finishCoding(socket, context);
+      this.closeUnansweredCoding(socket, context);
+      context.currentQuestion = null;
+      context.currentFollowUp = null;
+      context.stage = 'closing';
+      userInstruction = 'The candidate asked to end the interview now. Acknowledge that without pressing them to continue, thank them for their time, mention that they will get feedback on the questions they answered, and say goodbye.';
+    }
+
+    await this.streamInstruction(socket, context, userInstruction);
+  }
+
+  /**
+   * Record the pending question as skipped (a follow-up is simply dropped) and move on
+   * A design question in progress is scored on the phases it got through
+   */
+  private async skipCurrentQuestion(socket: Socket, context: InterviewContext): Promise<string> {
+    if (context.currentFollowUp) {
+      context.currentFollowUp = null;
+    } else if (context.currentDesign) {
+      await this.finishDesign(socket, context);
+    } else if (context.currentCoding) {
+      await this.finishCoding(socket, context);
+    } else if (context.currentQuestion) {
+      const current = context.currentQuestion;
+      this.closeUnansweredCoding(socket, context);
+      context.interviewQuestions.push({
+        question_id: current.question.question_id,
+        question: current.text,
+        answer: '',
+        asked_at: current.asked_at,
+        was_modified: current.was_modified,
+        modification_reason: current.modification_reason,
+        resume_reference: current.resume_reference,
+        skipped: true,
+        follow_ups: [],
+        follow_up_indexes: []
+      });
+      context.currentQuestion = null;
+    }
+
+    return this.advanceInterview(
+      context,
+      'The candidate chose to skip that question. Say that is no problem in a few words.',
+      'The candidate chose to skip that question. Say that is no problem in a few words.'
+    );
+  }
+
+  private resumeFromPause(socket: Socket, context: InterviewContext): void {
+    if (!context.pausedAt) return;
+    context.pausedSeconds += (Date.now() - context.pausedAt.getTime()) / 1000;
+    context.pausedAt = null;
+    socket.emit('interview_resumed', { pausedSeconds: Math.round(context.pausedSeconds) });
+  }
+
+  /**
+   * Resume a restored session after the candidate reconnects
+   */
+  async resumeInterview(socket: Socket, context: InterviewContext): Promise<void> {
+    logger.info(`[InterviewService] Resuming interview at stage: ${context.stage}`);
+
+    const welcomeBack = 'The candidate just reconnected after their connection dropped. Welcome them back in one short sentence';
+    let userInstruction: string;
+
+    if (context.stage === 'greeting') {
+      await this.startInterview(socket, context);
+      return;
+    } else if (context.stage === 'small_talk' || context.stage === 'ready_check') {
+      userInstruction = `${welcomeBack}, then ask if they are ready to start the interview.`;
+      context.stage = 'ready_check';
+    } else if (context.stage === 'interview' && context.currentDesign) {
+      const record = context.interviewQuestions[context.interviewQuestions.length - 1];
+      const phase = record?.design_phases?.[record.design_phases.length - 1];
+      userInstruction = `${welcomeBack}, then briefly recap the system design question ("${context.currentDesign.text}") and ask them to continue${phase ? ` with the ${designPhase(phase.phase).label} phase` : ''}.`;
+    } else if (context.stage === 'interview' && context.currentCoding) {
+      userInstruction = `${welcomeBack}, then tell them their code is still in the editor and ask them to carry on with the coding question.`;
+    } else if (context.stage === 'interview' && context.currentFollowUp) {
+      userInstruction = `${welcomeBack}, then repeat this follow-up question: "${context.currentFollowUp.question_text}"`;
+    } else if (context.stage === 'interview' && context.currentQuestion) {
+      userInstruction = `${welcomeBack}, then repeat the question you were on (question ${context.questionsAsked} of ${context.maxQuestions}): "${context.currentQuestion.text}"`;
+    } else if (context.stage === 'interview') {
+      userInstruction = `${welcomeBack}, then ask them to continue with their answer.`;
+    } else {
+      userInstruction = `${welcomeBack}, then thank them for their time and say goodbye.`;
+    }
+
+    await this.streamInstruction(socket, context, userInstruction);
+  }
+
+  /**
+   * Stream the interviewer's reply to an instruction and record it in history
+   */
+  private async streamInstruction(socket: Socket, context: InterviewContext, userInstruction: string): Promise<void> {
+    const systemPrompt = this.buildSystemPrompt(context);
+
     try {
       // Limit history to last 10 messages
       const limitedHistory = context.conversationHistory.slice(-10);
@@ -260,8 +914,8 @@ Return as JSON: { "keyRequirements": ["..."], "technicalSkills": ["..."], "softS
 
       const stream = await this.openai.chat.completions.create({
         model: 'gpt-3.5-turbo',
-        max_tokens: 200,
-        temperature: 0.7,
+        max_tokens: context.currentDesign ? DESIGN_REPLY_TOKENS : REPLY_TOKENS,
+        temperature: context.persona.temperature,
         stream: true,
         messages
       });
@@ -281,6 +935,8 @@ Return as JSON: { "keyRequirements": ["..."], "technicalSkills": ["..."], "softS
       }
 
       socket.emit('text_complete', { fullText: fullText.trim() });
+      this.markQuestionDelivered(context);
+      this.emitCodingQuestion(socket, context);
 
       // Add to conversation history
       context.conversationHistory.push({
@@ -288,11 +944,6 @@ Return as JSON: { "keyRequirements": ["..."], "technicalSkills": ["..."], "softS
         content: fullText.trim()
       });
 
-      // Track current question if we just asked one
-      if (context.stage === 'interview') {
-        context.currentQuestion = fullText.trim();
-      }
-
       logger.info(`[InterviewService] Response sent successfully, new stage: ${context.stage}`);
 
     } catch (error) {
@@ -306,6 +957,374 @@ Return as JSON: { "keyRequirements": ["..."], "technicalSkills": ["..."], "softS
     }
   }
 
+  /**
+   * Record the answer to a databank follow-up and re-evaluate the whole exchange
+   */
+  private async recordFollowUpAnswer(
+    socket: Socket,
+    userMessage: string,
+    context: InterviewContext,
+    speech?: SpeechTiming
+  ): Promise<void> {
+    const followUp = context.currentFollowUp;
+    const record = context.interviewQuestions[context.interviewQuestions.length - 1];
+    context.currentFollowUp = null;
+
+    if (!followUp || !record) {
+      return;
+    }
+
+    record.follow_ups.push({
+      question_text: followUp.question_text,
+      trigger_condition: followUp.trigger_condition,
+      star_component: followUp.star_component,
+      transcript: userMessage,
+      asked_at: followUp.asked_at,
+      speech
+    });
+
+    const question = context.questionPool.find(q => q.question_id === record.question_id);
+    if (!question) {
+      return;
+    }
+
+    const combinedTranscript = [
+      record.answer,
+      ...record.follow_ups.map(f => `Follow-up: ${f.question_text}\nAnswer: ${f.transcript}`)
+    ].join('\n\n');
+
+    // STAR cues only count what the candidate said, not the follow-up questions
+    const candidateTurns = [record.answer, ...record.follow_ups.map(f => f.transcript)].join('\n\n');
+
+    const result = await this.evaluateAnswer(socket, record, question, combinedTranscript, context, candidateTurns);
+    this.queueFollowUp(context, question, record, result);
+  }
+
+  /**
+   * Queue the databank follow-up whose trigger condition was met, if any
+   * Otherwise behavioral answers get a follow-up on a missing STAR component,
+   * and probing personas ask the evaluator's follow-up on a thin answer
+   */
+  private queueFollowUp(
+    context: InterviewContext,
+    question: IQuestion,
+    record: InterviewContext['interviewQuestions'][number],
+    result: StreamingEvaluationResult
+  ): void {
+    const maxFollowUps = context.persona.max_follow_ups;
+    if (this.isOutOfTime(context) || record.follow_ups.length >= maxFollowUps) {
+      return;
+    }
+
+    const selected = this.followUpSelector.select(question, result, record.follow_up_indexes, maxFollowUps);
+    if (selected) {
+      record.follow_up_indexes.push(selected.index);
+      context.currentFollowUp = {
+        ...selected,
+        asked_at: new Date()
+      };
+      return;
+    }
+
+    const askedComponents = record.follow_ups.flatMap(f => f.star_component ? [f.star_component] : []);
+    const star = result.star ? this.starAnalyzer.followUp(result.star, askedComponents) : null;
+    if (star) {
+      logger.info(`[InterviewService] Question ${question.question_id} answer has no STAR ${star.component}, following up`);
+      context.currentFollowUp = {
+        star_component: star.component,
+        trigger_condition: `STAR: missing ${star.component}`,
+        question_text: star.question_text,
+        asked_at: new Date()
+      };
+      return;
+    }
+
+    const probeBelow = context.persona.probe_below;
+    if (probeBelow !== undefined && result.follow_up_question && result.completeness_score < probeBelow) {
+      logger.info(`[InterviewService] Question ${question.question_id} answer at ${result.completeness_score}% completeness, ${context.persona.id} probes`);
+      context.currentFollowUp = {
+        trigger_condition: `Persona probe: completeness under ${probeBelow}`,
+        question_text: result.follow_up_question,
+        asked_at: new Date()
+      };
+    }
+  }
+
+  /**
+   * Evaluate an answer against the question's key points and criteria
+   */
+  private async evaluateAnswer(
+    socket: Socket,
+    record: InterviewContext['interviewQuestions'][number],
+    question: IQuestion,
+    answer: string,
+    context: InterviewContext,
+    candidateTurns?: string // Set when the answer includes the interviewer's follow-ups
+  ): Promise<StreamingEvaluationResult> {
+    const previousContext = context.interviewQuestions.slice(0, -1).slice(-3).map(qa => ({
+      question: qa.question,
+      answer: qa.answer
+    }));
+
+    const result = record.design_phases
+      ? await this.evaluator.evaluateDesignPhases(question, record.design_phases, socket)
+      : await this.evaluator.evaluateAnswerStreaming(
+          question,
+          answer,
+          previousContext,
+          socket,
+          context.template?.rubric,
+          candidateTurns
+        );
+
+    for (const scored of result.design_phases ?? []) {
+      const phase = record.design_phases?.find(p => p.phase === scored.phase);
+      if (phase) {
+        phase.score = scored.score;
+        phase.rationale = scored.rationale;
+      }
+    }
+
+    const evaluation: AnswerEvaluationRecord = {
+      completeness_score: result.completeness_score,
+      confidence_score: result.confidence_score,
+      key_points_covered: result.key_points_covered,
+      key_points_missed: result.key_points_missed,
+      criterion_scores: result.criterion_scores,
+      question_score: result.question_score,
+      star: result.star,
+      feedback: result.feedback,
+      suggested_follow_up: result.follow_up_question
+    };
+
+    record.evaluation = evaluation;
+
+    // Private to the candidate's socket - never broadcast
+    socket.emit('answer_evaluated', {
+      question_id: question.question_id,
+      follow_up_depth: record.follow_ups.length,
+      ...evaluation
+    });
+
+    if (evaluation.question_score === undefined) {
+      logger.warn(`[InterviewService] Answer to question ${question.question_id} left unscored`);
+    } else {
+      logger.info(`[InterviewService] Answer to question ${question.question_id} scored ${evaluation.question_score}/100`);
+    }
+    return result;
+  }
+
+  /**
+   * Stamp the pending question as asked once its text has been delivered
+   */
+  private markQuestionDelivered(context: InterviewContext): void {
+    if (context.stage !== 'interview') return;
+
+    if (context.currentFollowUp) {
+      context.currentFollowUp.asked_at = new Date();
+    } else if (context.currentQuestion) {
+      context.currentQuestion.asked_at = new Date();
+    }
+  }
+
+  /**
+   * Candidates whose category still has room in the mix; all of them once no category does
+   */
+  private withinCategoryQuotas(context: InterviewContext, candidates: IQuestion[]): IQuestion[] {
+    const quotas = context.categoryQuotas;
+    if (!quotas) {
+      return candidates;
+    }
+
+    const asked = new Map<QuestionCategory, number>();
+    for (const q of context.questionPool) {
+      if (context.askedQuestionIds.includes(q.question_id)) {
+        asked.set(q.category, (asked.get(q.category) || 0) + 1);
+      }
+    }
+
+    const open = candidates.filter(q => (asked.get(q.category) || 0) < (quotas.get(q.category) || 0));
+    return open.length > 0 ? open : candidates;
+  }
+
+  /**
+   * The first unasked prerequisite of a question, pulled into the pool if needed
+   * null when there is none; false when it would repeat a cluster or overfill its category
+   */
+  private async nextPrerequisite(
+    context: InterviewContext,
+    question: IQuestion,
+    remaining: IQuestion[]
+  ): Promise<IQuestion | null | false> {
+    const missing = await this.questionSelector.loadMissingPrerequisites(question, context.askedQuestionIds);
+    if (missing.length === 0) {
+      return null;
+    }
+
+    const pooled = context.questionPool.find(q => q.question_id === missing[0].question_id);
+    const prerequisite = pooled || missing[0];
+    const repeatsCluster = !pooled
+      && prerequisite.duplicate_cluster !== undefined && prerequisite.duplicate_cluster !== null
+      && context.questionPool.some(q => q.duplicate_cluster === prerequisite.duplicate_cluster);
+    if (repeatsCluster || !this.withinCategoryQuotas(context, [prerequisite, ...remaining]).includes(prerequisite)) {
+      logger.info(`[InterviewService] Skipping question ${question.question_id}: prerequisite ${prerequisite.question_id} ${repeatsCluster ? 'repeats a question cluster' : 'overfills its category'}`);
+      return false;
+    }
+
+    logger.info(`[InterviewService] Question ${question.question_id} needs prerequisite ${prerequisite.question_id} first`);
+    if (!pooled) {
+      // The interview length is fixed, so the prerequisite takes the slot of a planned question
+      logger.warn(`[InterviewService] Prerequisite ${prerequisite.question_id} was not in the pool and displaces a planned question`);
+      context.questionPool.push(prerequisite);
+    }
+    return prerequisite;
+  }
+
+  /**
+   * Pick the next databank question and adapt it to the conversation so far
+   */
+  private async prepareNextQuestion(context: InterviewContext): Promise<ActiveQuestion | null> {
+    const remainingQuestions = context.questionPool.filter(
+      q => !context.askedQuestionIds.includes(q.question_id)
+    );
+
+    if (remainingQuestions.length === 0) {
+      logger.warn('[InterviewService] No remaining databank questions');
+      return null;
+    }
+
+    // The engine picks the question; the LLM only phrases it
+    let candidates = this.withinCategoryQuotas(context, remainingQuestions);
+    let question: IQuestion | null = null;
+    while (!question && candidates.length > 0) {
+      const selection = this.adaptiveEngine.selectNext(
+        candidates,
+        this.scoredResponses(context),
+        context.askedQuestionIds
+      )!;
+      logger.info(`[InterviewService] ${selection.reasoning}`);
+
+      const prerequisite = await this.nextPrerequisite(context, selection.question, remainingQuestions);
+      if (prerequisite === false) {
+        candidates = candidates.filter(q => q !== selection.question);
+        continue;
+      }
+      question = prerequisite || selection.question;
+    }
+
+    if (!question) {
+      logger.warn('[InterviewService] No remaining question has prerequisites that fit the interview');
+      return null;
+    }
+
+    const phrasingContext: QuestionContext = {
+      previousQAs: context.interviewQuestions.map(qa => ({
+        question_id: qa.question_id,
+        question: qa.question,
+        answer: qa.answer
+      })),
+      interviewFocus: [...context.technicalSkills, ...context.keyRequirements],
+      resumeReference: context.resume ? findResumeReference(context.resume.experience, question.question_tags) : undefined
+    };
+    const modification = await this.questionSelector.modifyQuestion(question, phrasingContext);
+
+    const wasModified = Boolean(modification.should_modify && modification.modified_text);
+    const resumeGrounded = wasModified && modification.modification_type === 'resume-grounded';
+
+    const active: ActiveQuestion = {
+      question,
+      text: wasModified ? modification.modified_text : question.question_text,
+      was_modified: wasModified,
+      modification_reason: wasModified ? modification.reasoning : undefined,
+      resume_reference: resumeGrounded ? phrasingContext.resumeReference : undefined,
+      asked_at: new Date()
+    };
+
+    context.askedQuestionIds.push(question.question_id);
+    context.currentQuestion = active;
+    this.saveStrategy(context);
+
+    logger.info(`[InterviewService] Next question: ${question.question_id} (modified: ${wasModified})`);
+    return active;
+  }
+
+  /**
+   * Answers scored so far, for the ability estimate (skipped questions score 0)
+   * Answers still being evaluated are left out until their score arrives
+   */
+  private scoredResponses(context: InterviewContext): ScoredResponse[] {
+    const byId = new Map(context.questionPool.map(q => [q.question_id, q]));
+    return context.interviewQuestions.flatMap(qa => {
+      const question = byId.get(qa.question_id);
+      const score = qa.skipped ? 0 : qa.evaluation?.question_score;
+      return question && score !== undefined ? [{ question, score }] : [];
+    });
+  }
+
+  private buildStrategy(context: InterviewContext): InterviewStrategy {
+    const asked = new Set(context.askedQuestionIds);
+    const byId = new Map(context.questionPool.map(q => [q.question_id, q]));
+    return this.adaptiveEngine.strategy(
+      context.askedQuestionIds.map(id => byId.get(id)).filter((q): q is IQuestion => Boolean(q)),
+      this.scoredResponses(context),
+      context.questionPool.filter(q => !asked.has(q.question_id)),
+      context.interviewQuestions.filter(qa => qa.skipped).map(qa => qa.question_id)
+    );
+  }
+
+  /**
+   * Store the progression so far; a failed write only delays it to the next question
+   */
+  private saveStrategy(context: InterviewContext): void {
+    Interview.findByIdAndUpdate(context.interviewId, { interview_strategy: this.buildStrategy(context) })
+      .catch(error => logger.error('[InterviewService] Failed to save interview strategy:', error));
+  }
+
+  /**
+   * Whether the interview has used up its target duration
+   */
+  private isOutOfTime(context: InterviewContext): boolean {
+    if (!context.targetDurationSeconds) {
+      return false;
+    }
+    return this.elapsedSeconds(context) >= context.targetDurationSeconds;
+  }
+
+  private elapsedSeconds(context: InterviewContext): number {
+    return (Date.now() - context.startedAt.getTime()) / 1000 - context.pausedSeconds;
+  }
+
+  /**
+   * Current phase of a running system design question, for the system prompt
+   */
+  private describeDesign(context: InterviewContext): string {
+    const record = context.interviewQuestions[context.interviewQuestions.length - 1];
+    const phase = record?.design_phases?.[record.design_phases.length - 1];
+    if (!context.currentDesign || !phase) {
+      return '';
+    }
+
+    const definition = designPhase(phase.phase);
+    return `SYSTEM DESIGN QUESTION IN PROGRESS: "${context.currentDesign.text}"
+CURRENT PHASE: ${definition.label} (about ${Math.max(1, Math.round(phase.budget_seconds / 60))} minutes)
+You may use up to 5 sentences when answering clarifying questions or giving numbers. Never design the system for the candidate.`;
+  }
+
+  /**
+   * Compact resume summary for the system prompt
+   */
+  private describeResume(resume: InterviewResume): string {
+    const roles = resume.experience.slice(0, 4).map(e => {
+      const role = e.company ? `${e.title} at ${e.company}` : e.title;
+      const dates = e.start ? ` (${e.start} - ${e.end ?? 'present'})` : '';
+      const highlights = e.highlights.slice(0, 2).map(h => `\n  - ${h}`).join('');
+      return `- ${role}${dates}${highlights}`;
+    });
+    return [...roles, resume.skills.length ? `Skills: ${resume.skills.slice(0, 20).join(', ')}` : '']
+      .filter(Boolean)
+      .join('\n');
+  }
+
   /**
    * Build system prompt with interview context
    */
@@ -313,6 +1332,11 @@ Return as JSON: { "keyRequirements": ["..."], "technicalSkills": ["..."], "softS
     const keyReqs = context.keyRequirements.join(', ');
     const techSkills = context.technicalSkills.join(', ');
     const softSkills = context.softSkills.join(', ');
+    const background = context.template?.persona;
+    const { tone, acknowledgment } = context.persona;
+    const resume = context.resume ? this.describeResume(context.resume) : '';
+    const stageScript = context.stage !== 'completed' ? context.template?.stage_script?.[context.stage] : undefined;
+    const design = this.describeDesign(context);
 
     return `You are an expert technical interviewer conducting an interview for the position of ${context.jobTitle} at ${context.company}.
 
@@ -330,35 +1354,38 @@ INTERVIEW RULES:
 2. Start with warm greeting and small talk ("How's your day?")
 3. Ask if candidate is ready before starting interview questions
 4. Ask exactly ${context.maxQuestions} interview questions total
-5. Adapt follow-up questions based on candidate's answers
-6. Acknowledge answers before asking next question
+5. Ask the interview questions you are given - do not invent your own
+6. ${acknowledgment}
 7. Keep responses concise (2-3 sentences maximum)
 8. Questions should assess the technical and soft skills listed above
 9. Make questions specific to the job description requirements
-10. Be encouraging and professional throughout
-
+10. ${tone}
+${resume ? `\nCANDIDATE RESUME (you may refer to it, but ask the questions you are given):\n${resume}\n` : ''}${background ? `\nYOUR PERSONA (where it differs from rules 6 and 10 on tone, follow the rules):\n${background}\n` : ''}
 CURRENT STAGE: ${context.stage}
 QUESTIONS ASKED: ${context.questionsAsked} / ${context.maxQuestions}
-
+${stageScript ? `\nFOR THIS STAGE: ${stageScript}\n` : ''}${design ? `\n${design}\n` : ''}
 Respond naturally based on the current stage and instructions provided.`;
   }
 
   /**
-   * Check if user confirmed they're ready
+   * Classify the candidate's reply at a stage boundary
    */
-  private isReadyConfirmation(message: string): boolean {
-    const normalized = message.toLowerCase().trim();
-    const confirmations = ['yes', 'yeah', 'yep', 'sure', 'ready', "let's go", "let's do it", 'okay', 'ok', 'definitely', 'absolutely'];
-    return confirmations.some(word => normalized.includes(word));
+  private async classifyTransition(
+    context: InterviewContext,
+    stage: TransitionStage,
+    userMessage: string
+  ): Promise<StageTransition> {
+    const lastInterviewerMessage = [...context.conversationHistory]
+      .reverse()
+      .find(m => m.role === 'assistant')?.content;
+
+    const transition = await this.transitionClassifier.classify(stage, userMessage, lastInterviewerMessage);
+    logger.info(`[InterviewService] ${stage} transition: ${transition.intent} (${transition.confidence.toFixed(2)}, ${transition.source})`);
+    return transition;
   }
 
-  /**
-   * Check if user said goodbye
-   */
-  private isGoodbyeConfirmation(message: string): boolean {
-    const normalized = message.toLowerCase().trim();
-    const goodbyes = ['bye', 'goodbye', 'see you', 'thanks', 'thank you', 'later', 'great', 'okay'];
-    return goodbyes.some(word => normalized.includes(word));
+  private isConfident(transition: StageTransition, intent: StageTransition['intent']): boolean {
+    return transition.intent === intent && transition.confidence >= TRANSITION_CONFIDENCE_THRESHOLD;
   }
 
   /**
@@ -372,16 +1399,12 @@ Respond naturally based on the current stage and instructions provided.`;
       const feedback = await this.generateFeedback(context);
 
       // 2. Save interview with feedback
+      const endedAt = new Date();
       await Interview.findByIdAndUpdate(context.interviewId, {
         status: 'completed',
-        questionHistory: context.interviewQuestions.map(qa => ({
-          question_text: qa.question,
-          transcript: qa.answer,
-          asked_at: qa.asked_at,
-          was_modified: false,
-          modification_reason: 'LLM generated',
-          duration: 0
-        })),
+        endedAt,
+        questionHistory: this.buildQuestionHistory(context),
+        interview_strategy: this.buildStrategy(context),
         feedback: {
           overall_score: feedback.overall_score,
           strengths: feedback.strengths,
@@ -393,13 +1416,13 @@ Respond naturally based on the current stage and instructions provided.`;
           generated_at: new Date()
         },
         metrics: {
-          questions_asked: context.questionsAsked,
-          total_duration: 0,
+          ...computeInterviewMetrics(context, endedAt),
           overall_performance_score: feedback.overall_score
         }
       });
 
       logger.info(`[InterviewService] Interview completed and saved with feedback`);
+      context.stage = 'completed';
 
       // 3. Emit completion event to frontend
       socket.emit('interview_completed', {
@@ -413,16 +1436,106 @@ Respond naturally based on the current stage and instructions provided.`;
     }
   }
 
+  /**
+   * Mark an interview abandoned, keeping whatever was answered
+   * Used by the abandonment job for sessions that never came back
+   */
+  async abandonInterview(context: InterviewContext, options: { generateFeedback: boolean }): Promise<void> {
+    logger.info(`[InterviewService] Abandoning interview ${context.interviewId} after ${context.interviewQuestions.length} answers`);
+
+    const hasAnswers = context.interviewQuestions.length > 0;
+    const feedback = options.generateFeedback && hasAnswers
+      ? await this.generateFeedback(context)
+      : null;
+
+    const endedAt = lastActivityAt(context);
+    await Interview.findByIdAndUpdate(context.interviewId, {
+      status: 'abandoned',
+      endedAt,
+      questionHistory: this.buildQuestionHistory(context),
+      interview_strategy: this.buildStrategy(context),
+      ...(feedback && {
+        feedback: {
+          overall_score: feedback.overall_score,
+          strengths: feedback.strengths,
+          weaknesses: feedback.weaknesses,
+          improvements: feedback.improvements,
+          confidence_assessment: feedback.confidence_assessment,
+          communication_style: feedback.communication_style,
+          approach_analysis: feedback.approach_analysis,
+          generated_at: new Date()
+        }
+      }),
+      metrics: {
+        ...computeInterviewMetrics(context, endedAt),
+        overall_performance_score: feedback?.overall_score ?? 0
+      }
+    });
+  }
+
+  /**
+   * Map recorded Q&A onto the questionHistory schema
+   */
+  private buildQuestionHistory(context: InterviewContext) {
+    return context.interviewQuestions.map(qa => ({
+      question_id: qa.question_id,
+      question_text: qa.question,
+      transcript: qa.answer,
+      asked_at: qa.asked_at,
+      was_modified: qa.was_modified,
+      modification_reason: qa.modification_reason,
+      resume_grounded: Boolean(qa.resume_reference),
+      resume_reference: qa.resume_reference,
+      evaluation: qa.evaluation,
+      follow_ups: qa.follow_ups.map(f => ({
+        question_text: f.question_text,
+        trigger_condition: f.trigger_condition,
+        star_component: f.star_component,
+        transcript: f.transcript,
+        asked_at: f.asked_at,
+        answer_started_at: f.speech?.started_at,
+        answer_ended_at: f.speech?.ended_at
+      })),
+      design_phases: qa.design_phases,
+      code: qa.code,
+      answer_started_at: qa.speech?.started_at,
+      answer_ended_at: qa.speech?.ended_at,
+      response_latency: responseLatency(qa.asked_at, qa.speech),
+      skipped: qa.skipped ?? false,
+      duration: questionDuration(qa)
+    }));
+  }
+
   /**
    * Generate comprehensive feedback using OpenAI
    */
   private async generateFeedback(context: InterviewContext): Promise<InterviewFeedback> {
     logger.info('[InterviewService] Generating comprehensive feedback');
 
+    // The score comes from the per-question rubrics, not from the model
+    const score = overallScore(context.interviewQuestions.map(qa => ({
+      question_id: qa.question_id,
+      question_score: qa.evaluation?.question_score,
+      skipped: qa.skipped
+    })));
+
     // Build Q&A context for analysis
-    const qaContext = context.interviewQuestions.map((qa, idx) =>
-      `Question ${idx + 1}: ${qa.question}\nAnswer: ${qa.answer}`
-    ).join('\n\n');
+    const qaContext = context.interviewQuestions.map((qa, idx) => {
+      const lines = [`Question ${idx + 1}: ${qa.question}`, `Answer: ${qa.skipped ? '(skipped by candidate)' : qa.answer}`];
+      for (const followUp of qa.follow_ups) {
+        lines.push(`Follow-up: ${followUp.question_text}`, `Answer: ${followUp.transcript}`);
+      }
+      if (qa.evaluation) {
+        lines.push(qa.evaluation.question_score === undefined
+          ? 'Rubric score: unscored (the answer could not be evaluated; do not guess a score)'
+          : `Rubric score: ${qa.evaluation.question_score}/100 (${qa.evaluation.criterion_scores.map(c => `${c.criterion}: ${c.score}`).join(', ')})`);
+        lines.push(`Key points missed: ${qa.evaluation.key_points_missed.join(', ') || 'None'}`);
+        if (qa.evaluation.star) {
+          lines.push(`STAR completeness: ${qa.evaluation.star.completeness}% (missing: ${qa.evaluation.star.missing.join(', ') || 'none'})`);
+        }
+      }
+      return lines.join('\n');
+    }).join('\n\n');
 
     const prompt = `You are an expert interview coach. Analyze this technical interview performance and provide detailed feedback.
 
@@ -441,11 +1554,9 @@ Provide comprehensive feedback analyzing:
 4. CONFIDENCE_ASSESSMENT: Analyze their confidence level (scale 1-10 with explanation)
 5. COMMUNICATION_STYLE: How they communicate (clear/verbose/technical/conversational)
 6. APPROACH_ANALYSIS: Their problem-solving approach (structured/scattered/thorough/surface-level)
-7. OVERALL_SCORE: Overall performance score (0-100)
 
 Return as JSON:
 {
-  "overall_score": number,
   "strengths": ["strength 1", "strength 2", ...],
   "weaknesses": ["weakness 1", "weakness 2", ...],
   "improvements": ["improvement 1", "improvement 2", ...],
@@ -485,15 +1596,15 @@ Return as JSON:
         throw new Error('Empty feedback response from OpenAI');
       }
 
-      const feedback = JSON.parse(content) as InterviewFeedback;
-      logger.info('[InterviewService] Feedback generated successfully');
-      return feedback;
+      const feedback = JSON.parse(content) as Omit<InterviewFeedback, 'overall_score'>;
+      logger.info(`[InterviewService] Feedback generated successfully, rubric score ${score.overall_score}`);
+      return { ...feedback, overall_score: score.overall_score };
 
     } catch (error) {
       logger.error('[InterviewService] Error generating feedback:', error);
       // Return default feedback if generation fails
       return {
-        overall_score: 50,
+        overall_score: score.overall_score,
         strengths: ['Participated in the interview'],
         weaknesses: ['Feedback generation failed'],
         improvements: ['Try again'],
@@ -509,14 +1620,7 @@ Return as JSON:
    */
   private async saveInterviewResults(context: InterviewContext): Promise<void> {
     try {
-      const questionHistory = context.interviewQuestions.map(qa => ({
-        question_text: qa.question,
-        transcript: qa.answer,
-        asked_at: qa.asked_at,
-        was_modified: false,
-        modification_reason: 'LLM generated',
-        duration: 0
-      }));
+      const questionHistory = this.buildQuestionHistory(context);
 
       await Interview.findByIdAndUpdate(context.interviewId, {
         status: 'completed',
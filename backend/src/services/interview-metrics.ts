@@ -0,0 +1,122 @@
+import { InterviewContext } from './interview-conversation-service.js';
+
+/**
+ * Speech timestamps as sent by the client (epoch ms, client clock)
+ */
+export interface ClientSpeechTiming {
+  prompt_finished_at?: number; // Interviewer audio finished playing
+  speech_started_at?: number;
+  speech_ended_at?: number;
+  sent_at: number;
+}
+
+/**
+ * Speech timestamps converted to the server clock
+ */
+export interface SpeechTiming {
+  prompt_finished_at?: Date;
+  started_at: Date;
+  ended_at: Date;
+}
+
+export interface InterviewMetrics {
+  total_duration: number; // seconds, excluding breaks
+  questions_asked: number;
+  questions_skipped: number;
+  average_response_time: number; // seconds from question to first word
+  candidate_talk_time: number; // seconds
+  talk_time_ratio: number; // candidate talk time / total duration
+}
+
+/**
+ * Shift client timestamps onto the server clock using the send time
+ * Network latency is ignored; it is small next to answer durations
+ */
+export function toServerTiming(
+  timing: ClientSpeechTiming | undefined,
+  receivedAt: number = Date.now()
+): SpeechTiming | undefined {
+  if (!timing?.sent_at || !timing.speech_started_at || !timing.speech_ended_at) {
+    return undefined;
+  }
+
+  const offset = receivedAt - timing.sent_at;
+  return {
+    prompt_finished_at: timing.prompt_finished_at ? new Date(timing.prompt_finished_at + offset) : undefined,
+    started_at: new Date(timing.speech_started_at + offset),
+    ended_at: new Date(timing.speech_ended_at + offset)
+  };
+}
+
+/**
+ * Seconds between the question being put and the candidate starting to speak
+ */
+export function responseLatency(askedAt: Date, speech: SpeechTiming | undefined): number | undefined {
+  if (!speech) return undefined;
+  // A prompt_finished_at older than the question belongs to a previous turn (barge-in)
+  const from = speech.prompt_finished_at && speech.prompt_finished_at > askedAt
+    ? speech.prompt_finished_at
+    : askedAt;
+  return Math.max(0, round((speech.started_at.getTime() - from.getTime()) / 1000));
+}
+
+/**
+ * Seconds from asking a question to the end of the last answer (follow-ups included)
+ */
+export function questionDuration(record: InterviewContext['interviewQuestions'][number]): number {
+  const lastSpeech = [record.speech, ...record.follow_ups.map(f => f.speech)]
+    .filter((s): s is SpeechTiming => Boolean(s))
+    .pop();
+  if (!lastSpeech) return 0;
+  return Math.max(0, round((lastSpeech.ended_at.getTime() - record.asked_at.getTime()) / 1000));
+}
+
+export function computeInterviewMetrics(context: InterviewContext, endedAt: Date): InterviewMetrics {
+  const records = context.interviewQuestions;
+
+  // Breaks, including one still open when the interview ended, are not interview time
+  const openPause = context.pausedAt ? Math.max(0, (endedAt.getTime() - context.pausedAt.getTime()) / 1000) : 0;
+  const totalDuration = Math.max(0, round((endedAt.getTime() - context.startedAt.getTime()) / 1000 - context.pausedSeconds - openPause));
+
+  const latencies = records
+    .filter(r => !r.skipped)
+    .map(r => responseLatency(r.asked_at, r.speech))
+    .filter((l): l is number => l !== undefined);
+
+  const talkTime = records
+    .flatMap(r => [r.speech, ...r.follow_ups.map(f => f.speech)])
+    .filter((s): s is SpeechTiming => Boolean(s))
+    .reduce((sum, s) => sum + Math.max(0, s.ended_at.getTime() - s.started_at.getTime()) / 1000, 0);
+
+  return {
+    total_duration: totalDuration,
+    questions_asked: records.length,
+    questions_skipped: records.filter(r => r.skipped).length,
+    average_response_time: latencies.length > 0
+      ? round(latencies.reduce((sum, l) => sum + l, 0) / latencies.length)
+      : 0,
+    candidate_talk_time: round(talkTime),
+    talk_time_ratio: totalDuration > 0 ? Math.min(1, round(talkTime / totalDuration, 2)) : 0
+  };
+}
+
+/**
+ * Latest moment anything happened in the session
+ */
+export function lastActivityAt(context: InterviewContext): Date {
+  const times = context.interviewQuestions.flatMap(r => [
+    r.asked_at,
+    r.speech?.ended_at,
+    ...r.follow_ups.map(f => f.speech?.ended_at ?? f.asked_at)
+  ]);
+  const latest = Math.max(
+    context.startedAt.getTime(),
+    ...times.filter((t): t is Date => Boolean(t)).map(t => t.getTime())
+  );
+  return new Date(latest);
+}
+
+function round(value: number, digits: number = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,145 @@
+import mongoose from 'mongoose';
+import InterviewTemplate, { IInterviewTemplate, InterviewTemplateDefinition } from '../models/InterviewTemplate.js';
+import { InterviewTemplateSnapshot } from '../models/Interview.js';
+
+// Preset IDs are prefixed so they never collide with ObjectIds
+const PRESET_PREFIX = 'preset:';
+
+export interface TemplateSummary extends InterviewTemplateDefinition {
+  id: string;
+  preset: boolean;
+}
+
+/**
+ * Built-in templates available to every user
+ */
+export const PRESET_TEMPLATES: Record<string, InterviewTemplateDefinition> = {
+  'faang-behavioral': {
+    name: 'FAANG behavioral loop',
+    description: 'Leadership-principle style behavioral round: ownership, conflict, failure and impact stories.',
+    settings: {
+      question_count: 6,
+      target_duration_minutes: 45,
+      category_mix: { behavioral: 100 },
+      difficulty_band: 'senior',
+    },
+    persona_id: 'neutral_bar_raiser',
+    persona: 'A calm, structured interviewer from a large tech company who digs for specifics: what the candidate personally did, the numbers, and what they would do differently.',
+    rubric: [
+      { criterion: 'Clear situation and personal ownership', weight: 30 },
+      { criterion: 'Concrete actions and decisions', weight: 40 },
+      { criterion: 'Measurable results and reflection', weight: 30 },
+    ],
+    stage_script: {
+      greeting: 'Mention that this round focuses on past experiences and that there are no trick questions.',
+      ready_check: 'Suggest answering with specific stories rather than general approaches.',
+      interview: 'When an answer stays vague, ask what the candidate did personally before moving on.',
+      closing: 'Offer a minute for the candidate to ask about the team or culture.',
+    },
+  },
+  'junior-frontend-screen': {
+    name: 'Junior frontend screen',
+    description: 'Short phone screen on HTML, CSS, JavaScript and React fundamentals.',
+    job_title: 'Junior Frontend Engineer',
+    settings: {
+      question_count: 5,
+      target_duration_minutes: 25,
+      category_mix: { technical: 80, behavioral: 20 },
+      difficulty_band: 'junior',
+    },
+    persona_id: 'friendly_mentor',
+    persona: 'A friendly, encouraging engineer running an early screen, patient with nerves and happy to rephrase.',
+    rubric: [
+      { criterion: 'Correctness of fundamentals', weight: 60 },
+      { criterion: 'Clarity of explanation', weight: 40 },
+    ],
+    stage_script: {
+      greeting: 'Keep it light and reassure the candidate that this is a short conversational screen.',
+      interview: 'Favour practical examples ("how would you...") over definitions.',
+    },
+  },
+  'system-design-onsite': {
+    name: 'System design onsite',
+    description: 'One long design round: requirements, estimates, high-level design, deep dives and trade-offs.',
+    settings: {
+      question_count: 2,
+      target_duration_minutes: 60,
+      category_mix: { 'system-design': 100 },
+      difficulty_band: 'senior',
+    },
+    persona_id: 'skeptical_senior',
+    persona: 'A pragmatic staff engineer who lets the candidate drive, then challenges assumptions and asks about failure modes and scale.',
+    rubric: [
+      { criterion: 'Requirements and scoping', weight: 20 },
+      { criterion: 'High-level architecture', weight: 30 },
+      { criterion: 'Depth on critical components', weight: 30 },
+      { criterion: 'Trade-offs and bottlenecks', weight: 20 },
+    ],
+    stage_script: {
+      ready_check: 'Explain that the candidate should drive the design and think out loud.',
+      interview: 'Let the candidate clarify requirements before designing; push on scale, data model and failure handling.',
+    },
+  },
+};
+
+function savedSummary(doc: Pick<IInterviewTemplate, '_id' | keyof InterviewTemplateDefinition>): TemplateSummary {
+  return {
+    id: String(doc._id),
+    preset: false,
+    name: doc.name,
+    description: doc.description,
+    job_title: doc.job_title,
+    job_description: doc.job_description,
+    settings: doc.settings,
+    persona_id: doc.persona_id,
+    persona: doc.persona,
+    rubric: doc.rubric,
+    stage_script: doc.stage_script,
+  };
+}
+
+/**
+ * Lists and resolves presets plus the templates a user saved
+ */
+export class InterviewTemplateService {
+  async list(userId: string): Promise<TemplateSummary[]> {
+    const saved = await InterviewTemplate.find({ userId }).sort({ name: 1 }).lean();
+    return [
+      ...Object.entries(PRESET_TEMPLATES).map(([key, template]) => ({
+        ...template,
+        id: `${PRESET_PREFIX}${key}`,
+        preset: true,
+      })),
+      ...saved.map(savedSummary),
+    ];
+  }
+
+  /**
+   * A preset, or a template owned by the user; null if neither exists
+   */
+  async get(templateId: string, userId: string): Promise<TemplateSummary | null> {
+    if (templateId.startsWith(PRESET_PREFIX)) {
+      const preset = PRESET_TEMPLATES[templateId.slice(PRESET_PREFIX.length)];
+      return preset ? { ...preset, id: templateId, preset: true } : null;
+    }
+
+    if (!mongoose.isValidObjectId(templateId)) {
+      return null;
+    }
+    const saved = await InterviewTemplate.findOne({ _id: templateId, userId }).lean();
+    return saved ? savedSummary(saved) : null;
+  }
+
+  /**
+   * The parts of a template an interview keeps for its whole lifetime
+   */
+  snapshot(template: TemplateSummary): InterviewTemplateSnapshot {
+    return {
+      template_id: template.id,
+      name: template.name,
+      persona: template.persona,
+      rubric: template.rubric,
+      stage_script: template.stage_script,
+    };
+  }
+}
@@ -0,0 +1,138 @@
+export interface PrerequisiteNode {
+  question_id: number;
+  prerequisites?: number[];
+}
+
+/**
+ * Dependency graph over question prerequisites
+ * An edge A -> B means B must be asked before A
+ */
+export class PrerequisiteGraph {
+  private edges = new Map<number, number[]>();
+
+  constructor(nodes: PrerequisiteNode[] = []) {
+    for (const node of nodes) {
+      this.add(node);
+    }
+  }
+
+  add(node: PrerequisiteNode): void {
+    const prerequisites = (node.prerequisites || []).filter(id => id !== node.question_id);
+    this.edges.set(node.question_id, Array.from(new Set(prerequisites)));
+  }
+
+  has(questionId: number): boolean {
+    return this.edges.has(questionId);
+  }
+
+  prerequisitesOf(questionId: number): number[] {
+    return this.edges.get(questionId) || [];
+  }
+
+  /**
+   * Prerequisite IDs referenced by some node but not present in the graph
+   */
+  unknownPrerequisites(): number[] {
+    const unknown = new Set<number>();
+    for (const prerequisites of this.edges.values()) {
+      for (const id of prerequisites) {
+        if (!this.edges.has(id)) unknown.add(id);
+      }
+    }
+    return Array.from(unknown);
+  }
+
+  /**
+   * Find every dependency cycle, each reported once as a list of question IDs
+   */
+  findCycles(): number[][] {
+    const cycles: number[][] = [];
+    const seen = new Set<string>();
+    const state = new Map<number, 'visiting' | 'done'>();
+    const stack: number[] = [];
+
+    const visit = (id: number) => {
+      state.set(id, 'visiting');
+      stack.push(id);
+
+      for (const prerequisite of this.prerequisitesOf(id)) {
+        if (!this.edges.has(prerequisite)) continue;
+
+        if (state.get(prerequisite) === 'visiting') {
+          const cycle = stack.slice(stack.indexOf(prerequisite));
+          const key = [...cycle].sort((a, b) => a - b).join(',');
+          if (!seen.has(key)) {
+            seen.add(key);
+            cycles.push(cycle);
+          }
+        } else if (!state.has(prerequisite)) {
+          visit(prerequisite);
+        }
+      }
+
+      stack.pop();
+      state.set(id, 'done');
+    };
+
+    for (const id of this.edges.keys()) {
+      if (!state.has(id)) visit(id);
+    }
+
+    return cycles;
+  }
+
+  /**
+   * Unmet prerequisites of a question (transitively), deepest first
+   */
+  missingPrerequisites(questionId: number, satisfied: Set<number>): number[] {
+    const result: number[] = [];
+    const visited = new Set<number>([questionId]);
+
+    const visit = (id: number) => {
+      for (const prerequisite of this.prerequisitesOf(id)) {
+        if (visited.has(prerequisite) || satisfied.has(prerequisite)) continue;
+        visited.add(prerequisite);
+        visit(prerequisite);
+        result.push(prerequisite);
+      }
+    };
+
+    visit(questionId);
+    return result;
+  }
+
+  /**
+   * Order items so prerequisites come first, otherwise keeping the input order
+   * Only edges between items in the list are considered; items caught in a
+   * cycle keep their input order at the end
+   */
+  order<T extends PrerequisiteNode>(items: T[]): T[] {
+    const ids = new Set(items.map(item => item.question_id));
+    const placed = new Set<number>();
+    const ordered: T[] = [];
+
+    let progressed = true;
+    while (ordered.length < items.length && progressed) {
+      progressed = false;
+      for (const item of items) {
+        if (placed.has(item.question_id)) continue;
+
+        const ready = this.prerequisitesOf(item.question_id)
+          .every(id => !ids.has(id) || placed.has(id));
+
+        if (ready) {
+          ordered.push(item);
+          placed.add(item.question_id);
+          progressed = true;
+          break; // Restart so earlier-ranked items win ties
+        }
+      }
+    }
+
+    for (const item of items) {
+      if (!placed.has(item.question_id)) ordered.push(item);
+    }
+
+    return ordered;
+  }
+}
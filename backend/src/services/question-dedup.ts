@@ -0,0 +1,204 @@
+import Question, { IQuestion } from '../models/Question.js';
+import { logger } from '../utils/logger.js';
+import { cosineSimilarity } from './embedding-provider.js';
+
+// Pairs scoring at or above this are treated as the same question
+const DUPLICATE_THRESHOLD = 0.6;
+
+// Comparisons between yields to the event loop while clustering, so live sockets keep being served
+const COMPARISONS_PER_CHUNK = 2000;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'have', 'will', 'are', 'you', 'your',
+  'what', 'how', 'why', 'when', 'which', 'can', 'does', 'did', 'was', 'were', 'its', 'into',
+  'about', 'between', 'explain', 'describe', 'tell', 'difference', 'use', 'using', 'would',
+]);
+
+export type DedupQuestion = Pick<IQuestion, 'question_id' | 'question_title' | 'question_text' | 'question_tags' | 'category'> & {
+  embedding?: { vector?: number[] };
+};
+
+export interface DuplicateMatch {
+  question_id: number;
+  similarity: number;
+}
+
+export interface DuplicateCluster {
+  cluster_id: number; // Lowest question_id in the cluster
+  question_ids: number[];
+}
+
+function contentTokens(question: DedupQuestion): Set<string> {
+  return new Set(
+    `${question.question_title} ${question.question_text}`
+      .toLowerCase()
+      .replace(/[^a-z0-9+#.\s]/g, ' ')
+      .split(/\s+/)
+      .map(token => token.replace(/\.+$/, '').replace(/(?<=\w{3})s$/, ''))
+      .filter(token => token.length > 2 && !STOPWORDS.has(token))
+  );
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  let shared = 0;
+  for (const item of a) {
+    if (b.has(item)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Finds paraphrased duplicates in the databank by text, tags and (when stored) embeddings
+ */
+export class QuestionDeduplicator {
+  private tokenCache = new WeakMap<DedupQuestion, Set<string>>();
+  private tagCache = new WeakMap<DedupQuestion, Set<string>>();
+
+  /**
+   * Similarity from 0 to 1; embeddings weigh most when both questions have one
+   */
+  similarity(a: DedupQuestion, b: DedupQuestion): number {
+    const text = jaccard(this.tokens(a), this.tokens(b));
+    const tags = jaccard(this.tags(a), this.tags(b));
+
+    const va = a.embedding?.vector;
+    const vb = b.embedding?.vector;
+    if (va?.length && vb?.length && va.length === vb.length) {
+      return 0.5 * cosineSimilarity(va, vb) + 0.35 * text + 0.15 * tags;
+    }
+    return 0.75 * text + 0.25 * tags;
+  }
+
+  /**
+   * Questions in the pool that look like duplicates of the candidate, best match first
+   */
+  findDuplicates(candidate: DedupQuestion, pool: DedupQuestion[]): DuplicateMatch[] {
+    return pool
+      .filter(q => q.question_id !== candidate.question_id && q.category === candidate.category)
+      .map(q => ({ question_id: q.question_id, similarity: this.similarity(candidate, q) }))
+      .filter(match => match.similarity >= DUPLICATE_THRESHOLD)
+      .sort((a, b) => b.similarity - a.similarity)
+      .map(match => ({ ...match, similarity: Math.round(match.similarity * 100) / 100 }));
+  }
+
+  /**
+   * Group questions into duplicate clusters (single linkage within a category)
+   * Only pairs sharing a word or tag are compared: without one a pair scores at most 0.5,
+   * below the threshold even with identical embeddings
+   */
+  async cluster(questions: DedupQuestion[]): Promise<DuplicateCluster[]> {
+    const parent = new Map<number, number>(questions.map(q => [q.question_id, q.question_id]));
+    const find = (id: number): number => {
+      let root = id;
+      while (parent.get(root) !== root) root = parent.get(root)!;
+      parent.set(id, root);
+      return root;
+    };
+
+    const byCategory = new Map<string, DedupQuestion[]>();
+    for (const q of questions) {
+      const group = byCategory.get(q.category) ?? [];
+      group.push(q);
+      byCategory.set(q.category, group);
+    }
+
+    let comparisons = 0;
+    for (const group of byCategory.values()) {
+      // Word and tag -> positions in the group of the questions that have it
+      const index = new Map<string, number[]>();
+      for (let i = 0; i < group.length; i++) {
+        const keys = [
+          ...Array.from(this.tokens(group[i]), token => `word:${token}`),
+          ...Array.from(this.tags(group[i]), tag => `tag:${tag}`),
+        ];
+        const candidates = new Set<number>();
+        for (const key of keys) {
+          const postings = index.get(key);
+          if (postings) {
+            for (const j of postings) candidates.add(j);
+            postings.push(i);
+          } else {
+            index.set(key, [i]);
+          }
+        }
+
+        for (const j of candidates) {
+          if (this.similarity(group[i], group[j]) >= DUPLICATE_THRESHOLD) {
+            const [ra, rb] = [find(group[i].question_id), find(group[j].question_id)];
+            if (ra !== rb) parent.set(Math.max(ra, rb), Math.min(ra, rb));
+          }
+          if (++comparisons % COMPARISONS_PER_CHUNK === 0) {
+            await new Promise(resolve => setImmediate(resolve));
+          }
+        }
+      }
+    }
+
+    const members = new Map<number, number[]>();
+    for (const q of questions) {
+      const root = find(q.question_id);
+      const ids = members.get(root) ?? [];
+      ids.push(q.question_id);
+      members.set(root, ids);
+    }
+
+    return Array.from(members.values())
+      .filter(ids => ids.length > 1)
+      .map(ids => {
+        const sorted = ids.sort((a, b) => a - b);
+        return { cluster_id: sorted[0], question_ids: sorted };
+      });
+  }
+
+  /**
+   * Recompute duplicate_cluster for the whole bank
+   */
+  async recluster(): Promise<DuplicateCluster[]> {
+    const questions = await Question.find({}, {
+      question_id: 1,
+      question_title: 1,
+      question_text: 1,
+      question_tags: 1,
+      category: 1,
+      'embedding.vector': 1,
+    }).lean();
+
+    const clusters = await this.cluster(questions);
+    const clusterOf = new Map<number, number>();
+    for (const cluster of clusters) {
+      for (const id of cluster.question_ids) clusterOf.set(id, cluster.cluster_id);
+    }
+
+    await Question.updateMany(
+      { duplicate_cluster: { $exists: true }, question_id: { $nin: Array.from(clusterOf.keys()) } },
+      { $unset: { duplicate_cluster: 1 } }
+    );
+    if (clusterOf.size > 0) {
+      await Question.bulkWrite(Array.from(clusterOf.entries()).map(([question_id, cluster]) => ({
+        updateOne: { filter: { question_id }, update: { $set: { duplicate_cluster: cluster } } },
+      })), { ordered: false });
+    }
+
+    logger.info(`[Dedup] Found ${clusters.length} duplicate clusters covering ${clusterOf.size} questions`);
+    return clusters;
+  }
+
+  private tokens(question: DedupQuestion): Set<string> {
+    let tokens = this.tokenCache.get(question);
+    if (!tokens) {
+      tokens = contentTokens(question);
+      this.tokenCache.set(question, tokens);
+    }
+    return tokens;
+  }
+
+  private tags(question: DedupQuestion): Set<string> {
+    let tags = this.tagCache.get(question);
+    if (!tags) {
+      tags = new Set((question.question_tags ?? []).map(t => t.toLowerCase()));
+      this.tagCache.set(question, tags);
+    }
+    return tags;
+  }
+}
@@ -0,0 +1,126 @@
+import { createHash } from 'crypto';
+import Question, { IQuestion } from '../models/Question.js';
+import { logger } from '../utils/logger.js';
+import { EmbeddingProvider, cosineSimilarity, getEmbeddingProvider } from './embedding-provider.js';
+
+// Questions embedded per call when filling in missing vectors during selection
+const LAZY_BACKFILL_LIMIT = 200;
+
+type EmbeddableQuestion = Pick<
+  IQuestion,
+  'question_id' | 'question_title' | 'question_text' | 'question_tags' | 'expected_key_points'
+>;
+
+/**
+ * Text that represents a question in vector space
+ */
+export function questionEmbeddingText(question: EmbeddableQuestion): string {
+  return [
+    question.question_title,
+    question.question_text,
+    question.question_tags?.length ? `Topics: ${question.question_tags.join(', ')}` : '',
+    question.expected_key_points?.length ? `Key points: ${question.expected_key_points.join('; ')}` : '',
+  ].filter(Boolean).join('\n');
+}
+
+function hashText(text: string): string {
+  return createHash('sha1').update(text).digest('hex');
+}
+
+/**
+ * Keeps question vectors in MongoDB up to date and scores questions against free text
+ */
+export class QuestionEmbeddingIndex {
+  constructor(private providerOverride?: EmbeddingProvider | null) {}
+
+  // Resolved on use - env is loaded after module imports are evaluated
+  private get provider(): EmbeddingProvider | null {
+    return this.providerOverride !== undefined ? this.providerOverride : getEmbeddingProvider();
+  }
+
+  get enabled(): boolean {
+    return this.provider !== null;
+  }
+
+  /**
+   * Embed the given questions (or every question) whose vector is missing, stale or from another model
+   */
+  async refresh(questionIds?: number[], limit?: number): Promise<number> {
+    const provider = this.provider;
+    if (!provider) return 0;
+
+    const filter = questionIds ? { question_id: { $in: questionIds } } : {};
+    // Explicit inclusion overrides the schema's select: false
+    let query = Question.find(filter, {
+      question_id: 1,
+      question_title: 1,
+      question_text: 1,
+      question_tags: 1,
+      expected_key_points: 1,
+      'embedding.model': 1,
+      'embedding.text_hash': 1,
+    }).lean();
+    if (limit && !questionIds) {
+      query = query.where({ $or: [{ embedding: { $exists: false } }, { 'embedding.model': { $ne: provider.model } }] }).limit(limit);
+    }
+    const questions = await query;
+
+    const stale = questions
+      .map(q => ({ q, text: questionEmbeddingText(q) }))
+      .filter(({ q, text }) => q.embedding?.model !== provider.model || q.embedding?.text_hash !== hashText(text));
+
+    if (stale.length === 0) return 0;
+
+    const vectors = await provider.embed(stale.map(s => s.text));
+    await Question.bulkWrite(stale.map(({ q, text }, i) => ({
+      updateOne: {
+        filter: { question_id: q.question_id },
+        update: {
+          $set: {
+            embedding: {
+              model: provider.model,
+              vector: vectors[i],
+              text_hash: hashText(text),
+              updated_at: new Date(),
+            },
+          },
+        },
+      },
+    })), { ordered: false });
+
+    logger.info(`[Embeddings] Embedded ${stale.length} questions with ${provider.model}`);
+    return stale.length;
+  }
+
+  /**
+   * Refresh in the background after bank edits; failures only cost search quality
+   */
+  refreshInBackground(questionIds: number[]): void {
+    if (!this.provider || questionIds.length === 0) return;
+    this.refresh(questionIds).catch(error => {
+      logger.error('[Embeddings] Background refresh failed:', error);
+    });
+  }
+
+  /**
+   * Cosine similarity between the text and every embedded question matching the filter
+   */
+  async similarities(text: string, filter: Record<string, unknown>): Promise<Map<number, number>> {
+    const provider = this.provider;
+    if (!provider) return new Map();
+
+    // Fill gaps first so new questions are searchable right away
+    await this.refresh(undefined, LAZY_BACKFILL_LIMIT);
+
+    const [[queryVector], docs] = await Promise.all([
+      provider.embed([text]),
+      Question.find({ ...filter, 'embedding.model': provider.model }, { question_id: 1, 'embedding.vector': 1 }).lean(),
+    ]);
+
+    return new Map(
+      docs
+        .filter(doc => doc.embedding?.vector?.length)
+        .map(doc => [doc.question_id, cosineSimilarity(queryVector, doc.embedding!.vector)])
+    );
+  }
+}
@@ -0,0 +1,460 @@
+import { parse as parseCsv } from 'csv-parse/sync';
+import YAML from 'yaml';
+import Question from '../models/Question.js';
+import { PrerequisiteGraph } from './prerequisite-graph.js';
+import { QuestionEmbeddingIndex } from './question-embeddings.js';
+import { DedupQuestion, DuplicateMatch, QuestionDeduplicator } from './question-dedup.js';
+import { QuestionInput, QuestionPatch, questionInputSchema, questionPatchSchema } from '../validation/question-schema.js';
+import { logger } from '../utils/logger.js';
+
+export type ImportFormat = 'json' | 'ndjson' | 'csv' | 'yaml';
+
+export interface FieldDiff {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ImportRowReport {
+  row: number; // 1-based position in the upload (line number for NDJSON, data row for CSV)
+  question_id?: number;
+  status: 'create' | 'update' | 'merge' | 'unchanged' | 'invalid';
+  errors: string[];
+  warnings: string[];
+  diff: FieldDiff[];
+  duplicates?: DuplicateMatch[]; // Existing or earlier-uploaded questions this one paraphrases
+  merged_into?: number;
+}
+
+export interface ImportOptions {
+  dryRun: boolean;
+  // flag: report likely duplicates but import them; merge: fold new duplicates into the existing question
+  duplicates: 'flag' | 'merge';
+}
+
+export interface ImportPlan {
+  report: ImportReport;
+  writes: Array<QuestionInput | QuestionPatch>; // Updates hold only the fields the upload set
+  merges: Array<{ into: number; question: QuestionInput }>;
+}
+
+export interface ImportReport {
+  format: ImportFormat;
+  dryRun: boolean;
+  summary: {
+    total: number;
+    create: number;
+    update: number;
+    merge: number;
+    unchanged: number;
+    invalid: number;
+    warnings: number;
+  };
+  cycles: number[][];
+  rows: ImportRowReport[];
+}
+
+interface ParsedRow {
+  row: number;
+  raw?: unknown;
+  error?: string;
+}
+
+// CSV cells for list fields hold values separated by "|"
+const CSV_LIST_SEPARATOR = '|';
+const CSV_NUMBER_FIELDS = ['question_id', 'estimated_time', 'view_count', 'score'];
+const CSV_LIST_FIELDS = ['question_tags', 'expected_key_points'];
+const CSV_NUMBER_LIST_FIELDS = ['prerequisites', 'rank_key'];
+
+const CONTENT_TYPE_FORMATS: Record<string, ImportFormat> = {
+  'application/json': 'json',
+  'application/x-ndjson': 'ndjson',
+  'application/ndjson': 'ndjson',
+  'application/jsonl': 'ndjson',
+  'text/csv': 'csv',
+  'application/yaml': 'yaml',
+  'application/x-yaml': 'yaml',
+  'text/yaml': 'yaml',
+};
+
+export const IMPORT_CONTENT_TYPES = Object.keys(CONTENT_TYPE_FORMATS).filter((type) => type !== 'application/json');
+
+/**
+ * Pick the upload format from an explicit ?format= or the Content-Type header
+ */
+export function detectImportFormat(explicit: unknown, contentType: string | undefined): ImportFormat | null {
+  if (typeof explicit === 'string') {
+    return (['json', 'ndjson', 'csv', 'yaml'] as const).find((f) => f === explicit.toLowerCase()) ?? null;
+  }
+  const mime = contentType?.split(';')[0].trim().toLowerCase();
+  return mime ? CONTENT_TYPE_FORMATS[mime] ?? null : 'json';
+}
+
+/**
+ * The upload could not be read at all (as opposed to individual bad rows)
+ */
+export class ImportFormatError extends Error {}
+
+/**
+ * Validates question bank uploads and upserts the valid rows
+ */
+export class QuestionImporter {
+  private embeddings = new QuestionEmbeddingIndex();
+  private deduplicator = new QuestionDeduplicator();
+
+  /**
+   * Validate an upload and report what importing it would change
+   */
+  async analyze(payload: unknown, format: ImportFormat, options: ImportOptions): Promise<ImportPlan> {
+    const parsed = this.parse(payload, format);
+    const rows: ImportRowReport[] = [];
+    const writes: ImportPlan['writes'] = [];
+    const merges: ImportPlan['merges'] = [];
+
+    const seenIds = new Map<number, number>();
+    const candidates: Array<{ report: ImportRowReport; data: QuestionInput; patch: QuestionPatch }> = [];
+
+    for (const item of parsed) {
+      const report: ImportRowReport = { row: item.row, status: 'invalid', errors: [], warnings: [], diff: [] };
+      rows.push(report);
+
+      if (item.error) {
+        report.errors.push(item.error);
+        continue;
+      }
+
+      const result = questionInputSchema.safeParse(item.raw);
+      if (!result.success) {
+        const rawId = (item.raw as { question_id?: unknown } | undefined)?.question_id;
+        if (typeof rawId === 'number') report.question_id = rawId;
+        report.errors.push(...result.error.issues.map((issue) => `${issue.path.join('.') || 'row'}: ${issue.message}`));
+        continue;
+      }
+
+      const data = result.data;
+      report.question_id = data.question_id;
+
+      const firstRow = seenIds.get(data.question_id);
+      if (firstRow !== undefined) {
+        report.errors.push(`Duplicate question_id ${data.question_id} (first seen in row ${firstRow})`);
+        continue;
+      }
+      seenIds.set(data.question_id, item.row);
+
+      report.warnings.push(...this.contentWarnings(data));
+      // Defaults fill in new questions only; updates keep whatever the upload left out
+      candidates.push({ report, data, patch: questionPatchSchema.parse(item.raw) });
+    }
+
+    // Prerequisites may point at questions already in the bank or elsewhere in this upload
+    const existingNodes = await Question.find({}, { question_id: 1, prerequisites: 1 }).lean();
+    const graph = new PrerequisiteGraph(existingNodes);
+    for (const { data } of candidates) {
+      graph.add(data);
+    }
+
+    for (const { report, data } of candidates) {
+      const unknown = (data.prerequisites ?? []).filter((id) => !graph.has(id));
+      if (unknown.length > 0) {
+        report.warnings.push(`Unknown prerequisites: ${unknown.join(', ')}`);
+      }
+    }
+
+    const cycles = graph.findCycles();
+
+    const existing = await Question.find({ question_id: { $in: candidates.map((c) => c.data.question_id) } }).lean();
+    const existingById = new Map(existing.map((q) => [q.question_id, q as unknown as Record<string, unknown>]));
+
+    // Compare against the bank and against rows earlier in this upload
+    const pool: DedupQuestion[] = await Question.find({}, {
+      question_id: 1,
+      question_title: 1,
+      question_text: 1,
+      question_tags: 1,
+      category: 1,
+    }).lean();
+
+    const kept: Array<(typeof candidates)[number] & { current?: Record<string, unknown> }> = [];
+    for (const { report, data, patch } of candidates) {
+      const current = existingById.get(data.question_id);
+      const duplicates = this.deduplicator.findDuplicates(data, pool);
+      if (duplicates.length > 0) {
+        report.duplicates = duplicates;
+        report.warnings.push(`Likely duplicate of question ${duplicates[0].question_id} (similarity ${duplicates[0].similarity})`);
+      }
+
+      const mergeTarget = duplicates.find((d) => existingById.has(d.question_id) || !seenIds.has(d.question_id));
+      if (!current && options.duplicates === 'merge' && mergeTarget) {
+        report.status = 'merge';
+        report.merged_into = mergeTarget.question_id;
+        merges.push({ into: mergeTarget.question_id, question: data });
+        continue;
+      }
+
+      kept.push({ report, data, patch, current });
+      pool.push(data);
+    }
+
+    // A merged row is never created, so rows that list it as a prerequisite point at the question it merged into
+    const mergedInto = new Map(merges.map(({ into, question }) => [question.question_id, into]));
+    for (const { report, data, patch, current } of kept) {
+      if (data.prerequisites?.some((id) => mergedInto.has(id))) {
+        for (const id of data.prerequisites.filter((id) => mergedInto.has(id))) {
+          report.warnings.push(`Prerequisite ${id} was merged into question ${mergedInto.get(id)}`);
+        }
+        const prerequisites = Array.from(new Set(data.prerequisites.map((id) => mergedInto.get(id) ?? id)))
+          .filter((id) => id !== data.question_id);
+        data.prerequisites = prerequisites;
+        patch.prerequisites = prerequisites;
+      }
+
+      if (!current) {
+        report.status = 'create';
+        writes.push(data);
+      } else {
+        report.diff = this.diff(current, patch);
+        report.status = report.diff.length > 0 ? 'update' : 'unchanged';
+        if (report.status === 'update') writes.push(patch);
+      }
+    }
+
+    const report: ImportReport = {
+      format,
+      dryRun: options.dryRun,
+      summary: {
+        total: rows.length,
+        create: rows.filter((r) => r.status === 'create').length,
+        update: rows.filter((r) => r.status === 'update').length,
+        merge: rows.filter((r) => r.status === 'merge').length,
+        unchanged: rows.filter((r) => r.status === 'unchanged').length,
+        invalid: rows.filter((r) => r.status === 'invalid').length,
+        warnings: rows.reduce((sum, r) => sum + r.warnings.length, 0),
+      },
+      cycles,
+      rows,
+    };
+
+    return { report, writes, merges };
+  }
+
+  /**
+   * Upsert validated questions (only the schema's fields the upload set are written on updates) and fold merges into their targets
+   */
+  async apply(plan: Pick<ImportPlan, 'writes' | 'merges'>): Promise<{ inserted: number; modified: number; merged: number }> {
+    const { writes, merges } = plan;
+    if (writes.length === 0 && merges.length === 0) {
+      return { inserted: 0, modified: 0, merged: 0 };
+    }
+
+    const result = await Question.bulkWrite([
+      ...writes.map((q) => ({
+        updateOne: {
+          filter: { question_id: q.question_id },
+          update: { $set: q },
+          upsert: true,
+        },
+      })),
+      // A merged duplicate contributes its tags and key points to the question it duplicates
+      ...merges.map(({ into, question }) => ({
+        updateOne: {
+          filter: { question_id: into },
+          update: {
+            $addToSet: {
+              question_tags: { $each: question.question_tags },
+              expected_key_points: { $each: question.expected_key_points ?? [] },
+            },
+          },
+        },
+      })),
+    ], { ordered: false });
+
+    this.reindex([...writes.map((q) => q.question_id), ...merges.map((m) => m.into)]);
+    logger.info(`[QuestionImport] Imported ${result.upsertedCount} new questions, modified ${result.modifiedCount}, merged ${merges.length}`);
+    return { inserted: result.upsertedCount, modified: result.modifiedCount, merged: merges.length };
+  }
+
+  /**
+   * Refresh embeddings, then re-cluster duplicates, in the background
+   */
+  private reindex(questionIds: number[]): void {
+    this.embeddings.refresh(questionIds)
+      .catch((error) => logger.error('[QuestionImport] Embedding refresh failed:', error))
+      .then(() => this.deduplicator.recluster())
+      .catch((error) => logger.error('[QuestionImport] Duplicate clustering failed:', error));
+  }
+
+  private parse(payload: unknown, format: ImportFormat): ParsedRow[] {
+    switch (format) {
+      case 'json':
+        return this.fromDocument(typeof payload === 'string' ? JSON.parse(payload) : payload);
+      case 'yaml': {
+        let document: unknown;
+        try {
+          document = YAML.parse(String(payload ?? ''));
+        } catch (error) {
+          throw new ImportFormatError(`Invalid YAML: ${(error as Error).message}`);
+        }
+        return this.fromDocument(document);
+      }
+      case 'ndjson':
+        return this.fromNdjson(String(payload ?? ''));
+      case 'csv':
+        return this.fromCsv(String(payload ?? ''));
+    }
+  }
+
+  /**
+   * JSON and YAML accept either a bare list or { questions: [...] }
+   */
+  private fromDocument(document: unknown): ParsedRow[] {
+    const list = Array.isArray(document)
+      ? document
+      : (document as { questions?: unknown } | null)?.questions;
+
+    if (!Array.isArray(list)) {
+      throw new ImportFormatError('Expected an array of questions or { "questions": [...] }');
+    }
+    return list.map((raw, index) => ({ row: index + 1, raw }));
+  }
+
+  private fromNdjson(text: string): ParsedRow[] {
+    const rows: ParsedRow[] = [];
+    text.split(/\r?\n/).forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        rows.push({ row: index + 1, raw: JSON.parse(line) });
+      } catch (error) {
+        rows.push({ row: index + 1, error: `Invalid JSON: ${(error as Error).message}` });
+      }
+    });
+    return rows;
+  }
+
+  /**
+   * One question per row; list cells use "|" separators, structured cells may hold JSON
+   * evaluation_criteria: "Correctness:60|Clarity:40"
+   * follow_up_questions: "condition => question|condition => question"
+   */
+  private fromCsv(text: string): ParsedRow[] {
+    let records: Record<string, string>[];
+    try {
+      records = parseCsv(text, { columns: true, skip_empty_lines: true, trim: true, bom: true });
+    } catch (error) {
+      throw new ImportFormatError(`Invalid CSV: ${(error as Error).message}`);
+    }
+
+    return records.map((record, index) => {
+      const row = index + 1;
+      try {
+        return { row, raw: this.csvRecordToQuestion(record) };
+      } catch (error) {
+        return { row, error: (error as Error).message };
+      }
+    });
+  }
+
+  private csvRecordToQuestion(record: Record<string, string>): Record<string, unknown> {
+    const question: Record<string, unknown> = {};
+
+    for (const [field, cell] of Object.entries(record)) {
+      if (cell === '') continue;
+
+      if (cell.startsWith('[') || cell.startsWith('{')) {
+        try {
+          question[field] = JSON.parse(cell);
+          continue;
+        } catch {
+          throw new Error(`${field}: cell looks like JSON but does not parse`);
+        }
+      }
+
+      const items = cell.split(CSV_LIST_SEPARATOR).map((item) => item.trim()).filter(Boolean);
+
+      if (CSV_NUMBER_FIELDS.includes(field)) {
+        question[field] = Number(cell);
+      } else if (CSV_LIST_FIELDS.includes(field)) {
+        question[field] = items;
+      } else if (CSV_NUMBER_LIST_FIELDS.includes(field)) {
+        question[field] = items.map(Number);
+      } else if (field === 'evaluation_criteria') {
+        question[field] = items.map((item) => {
+          const separator = item.lastIndexOf(':');
+          return separator === -1
+            ? { criterion: item, weight: NaN }
+            : { criterion: item.slice(0, separator).trim(), weight: Number(item.slice(separator + 1)) };
+        });
+      } else if (field === 'follow_up_questions') {
+        question[field] = items.map((item) => {
+          const [trigger_condition, question_text] = item.split('=>').map((part) => part.trim());
+          return { trigger_condition, question_text };
+        });
+      } else {
+        question[field] = cell;
+      }
+    }
+
+    return question;
+  }
+
+  private contentWarnings(data: QuestionInput): string[] {
+    const warnings: string[] = [];
+
+    if (!data.evaluation_criteria?.length) {
+      warnings.push('No evaluation_criteria - answers will be scored on overall quality only');
+    } else {
+      const total = data.evaluation_criteria.reduce((sum, c) => sum + c.weight, 0);
+      if (Math.abs(total - 100) > 0.01) {
+        warnings.push(`evaluation_criteria weights sum to ${total}, not 100 - they will be rescaled`);
+      }
+    }
+
+    if (!data.expected_key_points?.length) {
+      warnings.push('No expected_key_points');
+    }
+
+    if (data.category === 'coding' && (!data.entry_point || !data.test_cases?.length)) {
+      warnings.push('Coding question without entry_point and test_cases - it can only be answered by voice');
+    }
+
+    if (data.prerequisites?.includes(data.question_id)) {
+      warnings.push('Question lists itself as a prerequisite');
+    }
+
+    return warnings;
+  }
+
+  /**
+   * Fields the import would change on an existing question
+   */
+  private diff(current: Record<string, unknown>, next: QuestionPatch): FieldDiff[] {
+    const changes: FieldDiff[] = [];
+
+    for (const [field, after] of Object.entries(next)) {
+      if (after === undefined) continue;
+      const before = current[field];
+      if (!sameValue(before, after)) {
+        changes.push({ field, before: stripIds(before), after });
+      }
+    }
+
+    return changes;
+  }
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(stripIds(a)) === JSON.stringify(stripIds(b));
+}
+
+// Subdocuments read from Mongo carry _id fields the upload never has; keys are sorted for comparison
+function stripIds(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(stripIds);
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .filter(([key]) => key !== '_id')
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, v]) => [key, stripIds(v)])
+    );
+  }
+  return value;
+}
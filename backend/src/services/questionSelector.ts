@@ -1,6 +1,9 @@
 import OpenAI from 'openai';
 import Question, { IQuestion } from '../models/Question.js';
+import { InterviewSettings, QuestionCategory } from '../models/Interview.js';
 import { logger } from '../utils/logger.js';
+import { PrerequisiteGraph } from './prerequisite-graph.js';
+import { QuestionEmbeddingIndex } from './question-embeddings.js';
 
 let openai: OpenAI | null = null;
 
@@ -15,23 +18,62 @@ function getOpenAI(): OpenAI {
   return openai;
 }
 
-interface QuestionContext {
-  remainingQuestions: IQuestion[];
+export interface QuestionSelectionOptions {
+  count?: number;
+  durationSeconds?: number;
+  categoryMix?: InterviewSettings['category_mix'];
+  difficultyBand?: InterviewSettings['difficulty_band'];
+  resumeSkills?: string[]; // Skills from the candidate's resume, a weaker signal than the JD
+}
+
+// Difficulties allowed per seniority band, and the one to favour
+const DIFFICULTY_BANDS: Record<
+  InterviewSettings['difficulty_band'],
+  { allowed: IQuestion['difficulty'][]; preferred: IQuestion['difficulty'] }
+> = {
+  junior: { allowed: ['easy', 'medium'], preferred: 'easy' },
+  mid: { allowed: ['easy', 'medium', 'hard'], preferred: 'medium' },
+  senior: { allowed: ['medium', 'hard'], preferred: 'hard' },
+};
+
+// Time spent per question on top of its estimated answer time (asking, acknowledging)
+const QUESTION_OVERHEAD_SECONDS = 60;
+
+// Rough per-question time used to turn a duration into a question count
+const AVERAGE_QUESTION_SECONDS = 180;
+
+// Hybrid ranking: keyword score (normalized to 0-1) blended with embedding similarity
+const LEXICAL_WEIGHT = 0.4;
+const SEMANTIC_WEIGHT = 0.6;
+const PREFERRED_DIFFICULTY_BONUS = 0.05;
+
+// Keyword points for a tag that matches a resume skill (a JD tag match scores 5)
+const RESUME_TAG_SCORE = 2;
+
+// Nearest questions by embedding added to the keyword candidates
+const SEMANTIC_CANDIDATES = 50;
+
+// The pool holds this many times the questions to ask, so the adaptive engine can pick
+// harder or easier ones as its ability estimate moves
+const CANDIDATE_POOL_FACTOR = 3;
+
+export interface InitialSelection {
+  questions: IQuestion[]; // Candidate pool, prerequisites before their dependents
+  count: number; // How many of them to ask
+}
+
+// Conversation so far, used to phrase the next question
+export interface QuestionContext {
   previousQAs: any[];
-  userPerformance: {
-    averageScore: number;
-    strengths: string[];
-    weaknesses: string[];
-  };
   interviewFocus: string[];
+  resumeReference?: string; // Resume experience related to the question, if any
 }
 
-interface QuestionDecision {
-  question_id: number;
+export interface QuestionPhrasing {
   should_modify: boolean;
-  modified_text?: string;
+  modification_type?: 'as-is' | 'contextualized' | 'resume-grounded';
+  modified_text: string;
   reasoning: string;
-  expected_difficulty?: string;
 }
 
 interface AnswerEvaluation {
@@ -47,17 +89,47 @@ interface AnswerEvaluation {
 }
 
 export class HybridQuestionSelector {
+  private embeddings = new QuestionEmbeddingIndex();
+
+  /**
+   * Load the questions stored on an interview, in rank order
+   */
+  async loadSelectedQuestions(
+    selectedQuestions: Array<{ question_id: number; rank?: number }>
+  ): Promise<IQuestion[]> {
+    const ordered = [...selectedQuestions].sort((a, b) => (a.rank ?? 0) - (b.rank ?? 0));
+    const ids = ordered.map((q) => q.question_id);
+
+    const docs = await Question.find({ question_id: { $in: ids } });
+    const byId = new Map(docs.map((doc) => [doc.question_id, doc]));
+
+    const questions = ids
+      .map((id) => byId.get(id))
+      .filter((doc): doc is NonNullable<typeof doc> => Boolean(doc));
+
+    if (questions.length < ids.length) {
+      logger.warn(`${ids.length - questions.length} selected questions no longer exist in the databank`);
+    }
+
+    return questions;
+  }
+
   /**
    * Phase 1: Initial question selection from databank
-   * Uses keyword matching and relevance scoring
+   * Ranks by keyword matching blended with embedding similarity to the job description,
+   * and returns a candidate pool larger than the number of questions to ask
    */
   async selectInitialQuestions(
     jobTitle: string,
     jobDescription: string,
-    count: number = 10
-  ): Promise<IQuestion[]> {
+    options: QuestionSelectionOptions = {}
+  ): Promise<InitialSelection> {
     logger.info('Selecting initial questions from databank');
 
+    const count = this.resolveCount(options);
+    const poolSize = count * CANDIDATE_POOL_FACTOR;
+    const band = DIFFICULTY_BANDS[options.difficultyBand || 'mid'];
+
     const text = `${jobTitle} ${jobDescription}`.toLowerCase();
 
     // Curated technical terms
@@ -106,10 +178,14 @@ export class HybridQuestionSelector {
       ...freqSorted.slice(0, 8),
     ]));
 
-    logger.info(`Extracted keywords: ${keywords.join(', ')}`);
+    const resumeSkills = (options.resumeSkills ?? []).map((s) => s.toLowerCase());
+    logger.info(`Extracted keywords: ${keywords.join(', ')}${resumeSkills.length ? ` (resume: ${resumeSkills.join(', ')})` : ''}`);
 
     // Build query
     const orClauses: any[] = [];
+    if (resumeSkills.length > 0) {
+      orClauses.push({ question_tags: { $in: resumeSkills } });
+    }
     if (keywords.length > 0) {
       orClauses.push({ question_tags: { $in: keywords } });
       for (const k of keywords) {
@@ -122,28 +198,58 @@ export class HybridQuestionSelector {
       }
     }
 
-    // Fetch candidates
-    const candidates = orClauses.length > 0
-      ? await Question.find({ $or: orClauses }).limit(200)
-      : await Question.find({}).sort({ 'rank_key.0': -1 }).limit(count);
+    // Restrict to the requested categories and difficulty band
+    const categoryFilter = this.buildCategoryFilter(options);
+    const filter = { ...categoryFilter, difficulty: { $in: band.allowed } };
+
+    // Fetch keyword candidates
+    const keywordCandidates = orClauses.length > 0
+      ? await Question.find({ $and: [{ $or: orClauses }, filter] }).limit(200)
+      : [];
+
+    // Add the nearest questions by meaning, which keywords miss ("Next.js", "distributed systems")
+    const similarities = await this.semanticSimilarities(
+      resumeSkills.length > 0
+        ? `${jobTitle}\n${jobDescription}\nCandidate experience: ${resumeSkills.join(', ')}`
+        : `${jobTitle}\n${jobDescription}`,
+      filter
+    );
+    const keywordIds = new Set(keywordCandidates.map((q) => q.question_id));
+    const semanticIds = Array.from(similarities.entries())
+      .filter(([id]) => !keywordIds.has(id))
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, SEMANTIC_CANDIDATES)
+      .map(([id]) => id);
+    const semanticCandidates = semanticIds.length > 0
+      ? await Question.find({ question_id: { $in: semanticIds } })
+      : [];
 
-    logger.info(`Fetched ${candidates.length} candidate questions`);
+    const candidates = [...keywordCandidates, ...semanticCandidates];
+    logger.info(`Fetched ${keywordCandidates.length} keyword and ${semanticCandidates.length} semantic candidate questions`);
 
-    // If no candidates found, fall back to all questions
+    // If no candidates found, fall back to all questions in the requested categories
     if (candidates.length === 0) {
       logger.info('No matches found, falling back to all questions');
-      const allQuestions = await Question.find({}).limit(count);
+      // Over-fetch so dropping duplicates still leaves enough
+      let allQuestions = await Question.find(filter).sort({ 'rank_key.0': -1 }).limit(poolSize * 2);
+      if (allQuestions.length === 0) {
+        allQuestions = await Question.find(categoryFilter).sort({ 'rank_key.0': -1 }).limit(poolSize * 2);
+      }
       logger.info(`Fallback fetched ${allQuestions.length} questions`);
-      return allQuestions;
+      const ranked = await this.applyCategoryMix(this.distinctClusters(allQuestions), poolSize, options, filter);
+      return this.planSelection(await this.withPrerequisites(ranked, poolSize, this.categoryQuotas(poolSize, options)), count, options);
     }
 
-    // Score candidates
+    // Score candidates: keyword score is one signal, embedding similarity the other
     const kwSet = new Set(keywords);
-    const scored = candidates.map((doc) => {
+    const resumeSet = new Set(resumeSkills);
+    const lexical = candidates.map((doc) => {
       let score = 0;
       if (Array.isArray(doc.question_tags)) {
         for (const t of doc.question_tags) {
-          if (kwSet.has(String(t).toLowerCase())) score += 5;
+          const tag = String(t).toLowerCase();
+          if (kwSet.has(tag)) score += 5;
+          else if (resumeSet.has(tag)) score += RESUME_TAG_SCORE;
         }
       }
       const title = String(doc.question_title || '').toLowerCase();
@@ -152,6 +258,16 @@ export class HybridQuestionSelector {
         if (title.includes(k)) score += 3;
         if (textField.includes(k)) score += 1;
       }
+      return score;
+    });
+    const maxLexical = Math.max(1, ...lexical);
+
+    const scored = candidates.map((doc, i) => {
+      const similarity = similarities.get(doc.question_id) ?? 0;
+      let score = similarities.size > 0
+        ? LEXICAL_WEIGHT * (lexical[i] / maxLexical) + SEMANTIC_WEIGHT * similarity
+        : lexical[i] / maxLexical;
+      if (doc.difficulty === band.preferred) score += PREFERRED_DIFFICULTY_BONUS;
       const rankKey = doc.rank_key?.[0] || 0;
       return { doc, score, rankKey };
     });
@@ -161,68 +277,264 @@ export class HybridQuestionSelector {
       return (b.rankKey || 0) - (a.rankKey || 0);
     });
 
-    const results = scored.slice(0, count).map((s) => s.doc);
-    logger.info(`Selected ${results.length} questions from databank`);
+    const ranked = await this.applyCategoryMix(this.distinctClusters(scored.map((s) => s.doc)), poolSize, options, filter);
+    const selection = this.planSelection(
+      await this.withPrerequisites(ranked, poolSize, this.categoryQuotas(poolSize, options)),
+      count,
+      options
+    );
+    logger.info(`Selected ${selection.questions.length} candidate questions from databank to ask ${selection.count}`);
 
-    return results;
+    return selection;
   }
 
   /**
-   * Phase 2: LLM-powered dynamic question selection
-   * During interview, decides which question to ask next
+   * Embedding similarity of every matching question to the text; empty if embeddings are off or fail
    */
-  async selectNextQuestion(
-    context: QuestionContext
-  ): Promise<QuestionDecision> {
-    logger.info('LLM selecting next question');
+  private async semanticSimilarities(text: string, filter: Record<string, unknown>): Promise<Map<number, number>> {
+    try {
+      return await this.embeddings.similarities(text, filter);
+    } catch (error) {
+      logger.error('Semantic retrieval failed, using keyword ranking only:', error);
+      return new Map();
+    }
+  }
+
+  /**
+   * Keep only the best-ranked question of each duplicate cluster, so paraphrases are never asked twice
+   */
+  private distinctClusters(ranked: IQuestion[]): IQuestion[] {
+    const seen = new Set<number>();
+    return ranked.filter((q) => {
+      if (q.duplicate_cluster === undefined || q.duplicate_cluster === null) return true;
+      if (seen.has(q.duplicate_cluster)) return false;
+      seen.add(q.duplicate_cluster);
+      return true;
+    });
+  }
 
-    const prompt = this.buildSelectionPrompt(context);
+  /**
+   * Number of questions to select, from an explicit count or a target duration
+   */
+  private resolveCount(options: QuestionSelectionOptions): number {
+    if (options.count) {
+      return options.count;
+    }
+    if (options.durationSeconds) {
+      return Math.min(20, Math.max(1, Math.round(options.durationSeconds / AVERAGE_QUESTION_SECONDS)));
+    }
+    return 10;
+  }
 
-    try {
-      const response = await getOpenAI().chat.completions.create({
-        model: 'gpt-4-turbo-preview',
-        max_tokens: 1024,
-        temperature: 0.7,
-        response_format: { type: 'json_object' },
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an intelligent interview question selector. Always respond with valid JSON.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-      });
+  private buildCategoryFilter(options: QuestionSelectionOptions): Record<string, unknown> {
+    const categories = this.mixedCategories(options);
+    return categories.length > 0 ? { category: { $in: categories } } : {};
+  }
 
-      const content = response.choices[0].message.content;
-      if (!content) {
-        throw new Error('No response from OpenAI');
+  private mixedCategories(options: QuestionSelectionOptions): QuestionCategory[] {
+    return Object.entries(options.categoryMix || {})
+      .filter(([, weight]) => (weight || 0) > 0)
+      .map(([category]) => category as QuestionCategory);
+  }
+
+  /**
+   * Questions per category for the mix (largest-remainder allocation of the count); null without a mix
+   */
+  categoryQuotas(count: number, options: QuestionSelectionOptions): Map<QuestionCategory, number> | null {
+    const categories = this.mixedCategories(options);
+    if (categories.length === 0) {
+      return null;
+    }
+
+    const weights = categories.map((c) => options.categoryMix![c] || 0);
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    const exact = weights.map((w) => (w / total) * count);
+    const quotas = exact.map(Math.floor);
+    const byRemainder = exact
+      .map((value, i) => ({ i, remainder: value - Math.floor(value) }))
+      .sort((a, b) => b.remainder - a.remainder);
+    for (let k = 0; quotas.reduce((sum, q) => sum + q, 0) < count; k++) {
+      quotas[byRemainder[k % byRemainder.length].i]++;
+    }
+
+    return new Map(categories.map((category, i) => [category, quotas[i]]));
+  }
+
+  /**
+   * Reorder ranked questions so the first `count` follow the category mix,
+   * backfilling from the databank when keyword matching found too few
+   * Leftover ranked questions are kept at the end as spares
+   */
+  private async applyCategoryMix(
+    ranked: IQuestion[],
+    count: number,
+    options: QuestionSelectionOptions,
+    filter: Record<string, unknown>
+  ): Promise<IQuestion[]> {
+    const quotas = this.categoryQuotas(count, options);
+    if (!quotas) {
+      return ranked;
+    }
+
+    const taken = new Set<number>();
+    const takenClusters = new Set<number>();
+    const take = (q: IQuestion) => {
+      taken.add(q.question_id);
+      if (q.duplicate_cluster !== undefined && q.duplicate_cluster !== null) takenClusters.add(q.duplicate_cluster);
+    };
+    const mixed: IQuestion[] = [];
+
+    for (const [category, quota] of quotas) {
+      const fromRanked = ranked
+        .filter((q) => q.category === category && !taken.has(q.question_id))
+        .slice(0, quota);
+      fromRanked.forEach(take);
+      mixed.push(...fromRanked);
+
+      const shortfall = quota - fromRanked.length;
+      if (shortfall > 0) {
+        const backfill = await Question.find({
+          ...filter,
+          category,
+          question_id: { $nin: Array.from(taken) },
+          duplicate_cluster: { $nin: Array.from(takenClusters) },
+        })
+          .sort({ 'rank_key.0': -1 })
+          .limit(shortfall);
+        backfill.forEach(take);
+        mixed.push(...backfill);
+        logger.info(`Backfilled ${backfill.length}/${shortfall} ${category} questions`);
       }
+    }
 
-      const decision = JSON.parse(content) as QuestionDecision;
-      logger.info(`LLM selected question_id: ${decision.question_id}`);
+    // Keep score order among the mixed questions
+    const position = new Map(ranked.map((q, i) => [q.question_id, i]));
+    mixed.sort((a, b) => (position.get(a.question_id) ?? Infinity) - (position.get(b.question_id) ?? Infinity));
 
-      return decision;
-    } catch (error) {
-      logger.error('Error in selectNextQuestion:', error);
-      // Fallback: return first remaining question
-      return {
-        question_id: context.remainingQuestions[0].question_id,
-        should_modify: false,
-        reasoning: 'Fallback: LLM error',
-      };
+    return [...mixed, ...ranked.filter((q) => !taken.has(q.question_id))];
+  }
+
+  /**
+   * How many questions to ask from the pool: the requested count, or as many of the
+   * top-ranked as fit the target duration (at least one)
+   */
+  private planSelection(pool: IQuestion[], count: number, options: QuestionSelectionOptions): InitialSelection {
+    let planned = Math.min(count, pool.length);
+    if (options.durationSeconds) {
+      let fitted = 0;
+      let elapsed = 0;
+      for (const q of pool.slice(0, planned)) {
+        const cost = (q.estimated_time || 120) + QUESTION_OVERHEAD_SECONDS;
+        if (fitted > 0 && elapsed + cost > options.durationSeconds) break;
+        fitted++;
+        elapsed += cost;
+      }
+      planned = fitted;
+    }
+
+    return { questions: pool, count: planned };
+  }
+
+  /**
+   * Take questions in ranked order, pulling in their prerequisites,
+   * and return them ordered so prerequisites come first
+   * Prerequisites count toward their own category's quota, so the mix still holds
+   */
+  private async withPrerequisites(
+    ranked: IQuestion[],
+    count: number,
+    quotas: Map<QuestionCategory, number> | null
+  ): Promise<IQuestion[]> {
+    const prerequisites = await this.loadPrerequisiteClosure(ranked);
+    const byId = new Map<number, IQuestion>();
+    for (const doc of [...ranked, ...prerequisites]) {
+      if (!byId.has(doc.question_id)) byId.set(doc.question_id, doc);
+    }
+
+    const graph = new PrerequisiteGraph(Array.from(byId.values()));
+    const selected: IQuestion[] = [];
+    const selectedIds = new Set<number>();
+    const perCategory = new Map<QuestionCategory, number>();
+
+    for (const doc of ranked) {
+      if (selected.length >= count) break;
+      if (selectedIds.has(doc.question_id)) continue;
+
+      const missing = graph
+        .missingPrerequisites(doc.question_id, selectedIds)
+        .filter((id) => byId.has(id));
+
+      // Skip a question if its prerequisites would not fit in the count or the category quotas
+      if (selected.length + missing.length + 1 > count) continue;
+      const bundle = [...missing, doc.question_id].map((id) => byId.get(id)!);
+      if (quotas) {
+        const added = new Map<QuestionCategory, number>();
+        for (const q of bundle) added.set(q.category, (added.get(q.category) ?? 0) + 1);
+        const overQuota = Array.from(added).some(
+          ([category, n]) => (perCategory.get(category) ?? 0) + n > (quotas.get(category) ?? 0)
+        );
+        if (overQuota) continue;
+      }
+
+      for (const q of bundle) {
+        selected.push(q);
+        selectedIds.add(q.question_id);
+        perCategory.set(q.category, (perCategory.get(q.category) ?? 0) + 1);
+      }
+    }
+
+    return graph.order(selected);
+  }
+
+  /**
+   * Fetch all prerequisites (transitively) of the given questions
+   * that are not already in the list
+   */
+  private async loadPrerequisiteClosure(questions: IQuestion[]): Promise<IQuestion[]> {
+    const known = new Set(questions.map((q) => q.question_id));
+    const loaded: IQuestion[] = [];
+    let frontier = questions.flatMap((q) => q.prerequisites || []).filter((id) => !known.has(id));
+
+    while (frontier.length > 0) {
+      const ids = Array.from(new Set(frontier));
+      ids.forEach((id) => known.add(id));
+
+      const docs = await Question.find({ question_id: { $in: ids } });
+      loaded.push(...docs);
+
+      frontier = docs.flatMap((q) => q.prerequisites || []).filter((id) => !known.has(id));
     }
+
+    return loaded;
   }
 
   /**
-   * Phase 3: Question modification if needed
+   * Prerequisites of a question that have not been asked yet, deepest first
+   * Loaded from the databank so questions outside the interview pool are included
+   */
+  async loadMissingPrerequisites(question: IQuestion, askedQuestionIds: number[]): Promise<IQuestion[]> {
+    if (!question.prerequisites?.length) {
+      return [];
+    }
+
+    const closure = await this.loadPrerequisiteClosure([question]);
+    const graph = new PrerequisiteGraph([question, ...closure]);
+    const byId = new Map(closure.map((q) => [q.question_id, q]));
+
+    return graph
+      .missingPrerequisites(question.question_id, new Set(askedQuestionIds))
+      .map((id) => byId.get(id))
+      .filter((doc): doc is IQuestion => Boolean(doc));
+  }
+
+  /**
+   * Phase 2: Phrase the question chosen by the adaptive engine
+   * Difficulty was already decided, so wording may change but scope may not
    */
   async modifyQuestion(
     question: IQuestion,
     context: QuestionContext
-  ): Promise<{ should_modify: boolean; modified_text: string; reasoning: string }> {
+  ): Promise<QuestionPhrasing> {
     logger.info(`Checking if question ${question.question_id} should be modified`);
 
     const prompt = `
@@ -232,29 +544,32 @@ ORIGINAL QUESTION:
 Title: ${question.question_title}
 Text: ${question.question_text}
 Tags: ${question.question_tags.join(', ')}
-Difficulty: ${question.difficulty}
 
-INTERVIEW CONTEXT:
-${JSON.stringify(context, null, 2)}
+PREVIOUS Q&As:
+${JSON.stringify(context.previousQAs.slice(-3), null, 2)}
 
+INTERVIEW FOCUS AREAS:
+${context.interviewFocus.join(', ')}
+${context.resumeReference ? `
+CANDIDATE'S RESUME MENTIONS:
+${context.resumeReference}
+` : ''}
 TASK:
 Decide if this question should be:
 1. Asked AS-IS (no modification needed)
-2. Simplified (candidate seems to be struggling)
-3. Enhanced (candidate is doing very well, add complexity)
-4. Contextualized (add context from their previous answers)
+2. Contextualized (reworded to connect to their previous answers or the role)${context.resumeReference ? `
+3. Resume-grounded (asked about the resume experience above, e.g. "Your resume mentions X - ...")` : ''}
 
 RULES:
-- ALWAYS keep the core intent of the question
-- If simplifying, break it into smaller parts
-- If enhancing, add edge cases or follow-up
+- ALWAYS keep the core intent and difficulty of the question
+- Do not simplify it or add complexity - the difficulty was chosen deliberately
 - If contextualizing, reference their previous answers
 - Return JSON only
 
 Return format:
 {
   "should_modify": true/false,
-  "modification_type": "as-is" | "simplified" | "enhanced" | "contextualized",
+  "modification_type": "as-is" | "contextualized"${context.resumeReference ? ' | "resume-grounded"' : ''},
   "modified_text": "the question text to ask",
   "reasoning": "why this modification"
 }
@@ -269,7 +584,7 @@ Return format:
         messages: [
           {
             role: 'system',
-            content: 'You are an expert interviewer who adapts questions based on candidate performance. Always respond with valid JSON.',
+            content: 'You are an expert interviewer who phrases questions naturally for the conversation. Always respond with valid JSON.',
           },
           {
             role: 'user',
@@ -381,46 +696,4 @@ Return JSON:
       };
     }
   }
-
-  private buildSelectionPrompt(context: QuestionContext): string {
-    return `
-You are an intelligent interview engine. Select the next question from the databank.
-
-REMAINING QUESTIONS (from curated databank):
-${JSON.stringify(
-      context.remainingQuestions.map((q) => ({
-        id: q.question_id,
-        title: q.question_title,
-        difficulty: q.difficulty,
-        category: q.category,
-        tags: q.question_tags,
-      })),
-      null,
-      2
-    )}
-
-PREVIOUS Q&As:
-${JSON.stringify(context.previousQAs.slice(-3), null, 2)}
-
-USER PERFORMANCE:
-${JSON.stringify(context.userPerformance, null, 2)}
-
-INTERVIEW FOCUS AREAS:
-${context.interviewFocus.join(', ')}
-
-TASK:
-Choose the BEST next question from the databank based on:
-1. Relevance to interview focus
-2. Appropriate difficulty given performance
-3. Logical flow from previous questions
-4. Coverage of different topics
-
-Return JSON only:
-{
-  "question_id": 12345,
-  "reasoning": "why this question is best next",
-  "expected_difficulty": "easy|medium|hard"
-}
-`;
-  }
 }
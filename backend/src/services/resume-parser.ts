@@ -0,0 +1,230 @@
+export type ResumeFormat = 'pdf' | 'docx' | 'text';
+
+export interface ResumeExperience {
+  title: string;
+  company?: string;
+  start?: string;
+  end?: string;
+  highlights: string[];
+  skills: string[];
+}
+
+export interface ParsedResume {
+  skills: string[];
+  experience: ResumeExperience[];
+}
+
+export const RESUME_CONTENT_TYPES: Record<string, ResumeFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/plain': 'text',
+  'text/markdown': 'text',
+};
+
+// Known skills matched anywhere in the resume; canonical name first, then aliases
+const SKILL_VOCABULARY: Array<[string, RegExp]> = [
+  ['javascript', /\b(javascript|es6|ecmascript)\b/i],
+  ['typescript', /\btypescript\b/i],
+  ['react', /\breact(\.js|js)?\b/i],
+  ['next.js', /\bnext(\.js|js)\b/i],
+  ['vue', /\bvue(\.js|js)?\b/i],
+  ['angular', /\bangular\b/i],
+  ['html', /\bhtml5?\b/i],
+  ['css', /\b(css3?|sass|scss|tailwind)\b/i],
+  ['node', /\bnode(\.js|js)?\b/i],
+  ['express', /\bexpress(\.js)?\b/i],
+  ['python', /\bpython\b/i],
+  ['django', /\bdjango\b/i],
+  ['flask', /\bflask\b/i],
+  ['java', /\bjava\b(?!\s*script)/i],
+  ['spring', /\bspring( boot)?\b/i],
+  ['go', /\b(golang|go lang)\b/i],
+  ['rust', /\brust\b/i],
+  ['cpp', /\b(c\+\+|cpp)\b/i],
+  ['c#', /(\bc#|\.net\b|\bdotnet\b)/i],
+  ['ruby', /\b(ruby|rails)\b/i],
+  ['kotlin', /\bkotlin\b/i],
+  ['swift', /\bswift\b/i],
+  ['sql', /\bsql\b/i],
+  ['postgresql', /\b(postgres(ql)?|psql)\b/i],
+  ['mysql', /\bmysql\b/i],
+  ['mongodb', /\bmongo(db)?\b/i],
+  ['redis', /\bredis\b/i],
+  ['elasticsearch', /\belastic ?search\b/i],
+  ['kafka', /\bkafka\b/i],
+  ['rabbitmq', /\brabbit ?mq\b/i],
+  ['graphql', /\bgraphql\b/i],
+  ['rest', /\b(rest(ful)?( api)?s?)\b/i],
+  ['grpc', /\bgrpc\b/i],
+  ['docker', /\bdocker\b/i],
+  ['kubernetes', /\b(kubernetes|k8s)\b/i],
+  ['terraform', /\bterraform\b/i],
+  ['aws', /\b(aws|amazon web services|ec2|s3|lambda)\b/i],
+  ['gcp', /\b(gcp|google cloud)\b/i],
+  ['azure', /\bazure\b/i],
+  ['ci/cd', /\b(ci\/cd|github actions|jenkins|circleci)\b/i],
+  ['git', /\bgit\b/i],
+  ['microservices', /\bmicro-?services?\b/i],
+  ['machine learning', /\b(machine learning|ml|pytorch|tensorflow)\b/i],
+  ['testing', /\b(jest|cypress|playwright|unit tests?|tdd)\b/i],
+];
+
+const SECTION_HEADINGS: Array<[string, RegExp]> = [
+  ['experience', /^(work |professional |relevant )?(experience|employment( history)?|work history)$/i],
+  ['skills', /^(technical |core |key )?(skills|technologies|tech stack|competencies)( & tools)?$/i],
+  ['projects', /^(personal |selected )?projects$/i],
+  ['education', /^(education|certifications?|education & certifications)$/i],
+  ['summary', /^(summary|profile|about( me)?|objective)$/i],
+];
+
+const MONTH = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+const DATE = `(?:${MONTH}\\s+\\d{4}|\\d{1,2}/\\d{4}|\\d{4})`;
+const DATE_RANGE = new RegExp(`(${DATE})\\s*(?:-|–|—|to)\\s*(${DATE}|present|current|now)`, 'i');
+
+const BULLET = /^\s*(?:[-*•▪◦●‣]|\d+\.)\s+/;
+
+// Experience entries kept per resume, and highlights per entry
+const MAX_EXPERIENCE = 10;
+const MAX_HIGHLIGHTS = 6;
+
+/**
+ * The resume line most related to the given tags, for grounding a question in it
+ * Prefers a highlight that names a shared skill, then the role itself
+ */
+export function findResumeReference(experience: ResumeExperience[], tags: string[]): string | undefined {
+  const wanted = new Set(tags.map(t => t.toLowerCase()));
+  let best: { entry: ResumeExperience; overlap: number } | null = null;
+  for (const entry of experience) {
+    const overlap = entry.skills.filter(s => wanted.has(s)).length;
+    if (overlap > 0 && (!best || overlap > best.overlap)) {
+      best = { entry, overlap };
+    }
+  }
+  if (!best) return undefined;
+
+  const { entry } = best;
+  const shared = entry.skills.filter(s => wanted.has(s));
+  const highlight = entry.highlights.find(h => detectSkills(h).some(skill => shared.includes(skill)));
+  const role = entry.company ? `${entry.title} at ${entry.company}` : entry.title;
+  return highlight ? `${highlight} (${role})` : `${role}, working with ${shared.join(', ')}`;
+}
+
+/**
+ * Plain text from an uploaded resume; everything runs in-process
+ */
+export async function extractResumeText(data: Buffer, format: ResumeFormat): Promise<string> {
+  if (format === 'text') {
+    return data.toString('utf8');
+  }
+
+  if (format === 'docx') {
+    const mammoth = await import('mammoth');
+    const result = await mammoth.extractRawText({ buffer: data });
+    return result.value;
+  }
+
+  const { extractText } = await import('unpdf');
+  const { text } = await extractText(new Uint8Array(data), { mergePages: true });
+  return text;
+}
+
+function detectSkills(text: string): string[] {
+  return SKILL_VOCABULARY.filter(([, pattern]) => pattern.test(text)).map(([skill]) => skill);
+}
+
+function headingOf(line: string): string | null {
+  const normalized = line.replace(/[:\s]+$/, '').trim();
+  if (normalized.length > 40) return null;
+  return SECTION_HEADINGS.find(([, pattern]) => pattern.test(normalized))?.[0] ?? null;
+}
+
+/**
+ * Split "Senior Engineer at Acme", "Acme | Senior Engineer" and similar into title and company
+ */
+function splitRole(line: string): { title: string; company?: string } {
+  const at = line.match(/^(.+?)\s+(?:at|@)\s+(.+)$/i);
+  if (at) return { title: at[1].trim(), company: at[2].trim() };
+
+  const parts = line.split(/\s+[|,–—-]\s+|,\s+/).map(p => p.trim()).filter(Boolean);
+  if (parts.length >= 2) {
+    // Titles usually contain a role word; otherwise assume "Title, Company"
+    const roleWord = /(engineer|developer|manager|lead|architect|intern|scientist|analyst|designer|consultant|director|head|cto|sre)/i;
+    if (!roleWord.test(parts[0]) && roleWord.test(parts[1])) {
+      return { title: parts[1], company: parts[0] };
+    }
+    return { title: parts[0], company: parts[1] };
+  }
+  return { title: line.trim() };
+}
+
+/**
+ * Turns resume text into skills and experience entries with simple, local heuristics
+ */
+export class ResumeParser {
+  parse(text: string): ParsedResume {
+    const lines = text
+      .split(/\r?\n/)
+      .map(line => line.replace(/\s+/g, ' ').trim())
+      .filter(Boolean);
+
+    const sections = new Map<string, string[]>();
+    let current = 'header';
+    for (const line of lines) {
+      const heading = headingOf(line);
+      if (heading) {
+        current = heading;
+        continue;
+      }
+      sections.set(current, [...(sections.get(current) ?? []), line]);
+    }
+
+    // Resumes without headings are treated as one experience section
+    const experienceLines = sections.get('experience') ?? (sections.size === 1 ? lines : []);
+    const experience = this.parseExperience(experienceLines);
+
+    const listed = (sections.get('skills') ?? [])
+      .flatMap(line => line.replace(/^[^:]{1,30}:\s*/, '').split(/[,;|•·]/))
+      .map(skill => skill.trim().toLowerCase())
+      .filter(skill => skill.length > 1 && skill.length <= 30);
+
+    const skills = Array.from(new Set([...detectSkills(text), ...listed]));
+    return { skills, experience };
+  }
+
+  private parseExperience(lines: string[]): ResumeExperience[] {
+    const entries: ResumeExperience[] = [];
+    let entry: ResumeExperience | null = null;
+    let pendingRole: string | null = null;
+
+    for (const line of lines) {
+      const range = line.match(DATE_RANGE);
+      if (range) {
+        const rest = line.replace(range[0], '').replace(/[|,()–—-]+\s*$/, '').replace(/^\s*[|,()–—-]+/, '').trim();
+        const role = rest.length > 2 ? rest : pendingRole;
+        entry = {
+          ...splitRole(role ?? 'Role'),
+          start: range[1],
+          end: range[2],
+          highlights: [],
+          skills: [],
+        };
+        // A role line followed by a separate company line ("Acme Corp  2019 - 2021")
+        if (rest.length > 2 && pendingRole && !entry.company) {
+          entry = { ...entry, ...splitRole(`${pendingRole}, ${rest}`) };
+        }
+        entries.push(entry);
+        pendingRole = null;
+      } else if (entry && (BULLET.test(line) || line.length > 60)) {
+        entry.highlights.push(line.replace(BULLET, ''));
+      } else {
+        pendingRole = line;
+      }
+    }
+
+    return entries.slice(0, MAX_EXPERIENCE).map(e => ({
+      ...e,
+      highlights: e.highlights.slice(0, MAX_HIGHLIGHTS),
+      skills: detectSkills([e.title, ...e.highlights].join(' ')),
+    }));
+  }
+}
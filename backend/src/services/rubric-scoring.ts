@@ -0,0 +1,118 @@
+import { IQuestion } from '../models/Question.js';
+
+// Used when a question declares no evaluation_criteria
+const DEFAULT_CRITERION = 'Overall answer quality';
+
+export interface RubricCriterion {
+  criterion: string;
+  weight: number; // Normalized so a question's weights sum to 100
+}
+
+export interface CriterionScore extends RubricCriterion {
+  score: number; // 0-100
+  rationale?: string;
+}
+
+export interface ScoredQuestion {
+  question_id: number;
+  question_score?: number;
+  skipped?: boolean;
+}
+
+export interface OverallScore {
+  overall_score: number;
+  scored_questions: number;
+  skipped_questions: number;
+}
+
+/**
+ * The question's rubric with weights rescaled to sum to 100
+ * Questions without criteria use the interview's default rubric, if any
+ */
+export function rubricFor(question: IQuestion, defaultRubric?: RubricCriterion[]): RubricCriterion[] {
+  let declared = (question.evaluation_criteria ?? []).filter(c => c.criterion && c.weight > 0);
+  if (declared.length === 0) {
+    declared = (defaultRubric ?? []).filter(c => c.criterion && c.weight > 0);
+  }
+  if (declared.length === 0) {
+    return [{ criterion: DEFAULT_CRITERION, weight: 100 }];
+  }
+
+  const total = declared.reduce((sum, c) => sum + c.weight, 0);
+  return declared.map(c => ({ criterion: c.criterion, weight: (c.weight / total) * 100 }));
+}
+
+/**
+ * A 0-100 score from the evaluator, or the fallback when it sent none
+ * Only numbers and numeric strings count, so null, '' and false are missing rather than 0
+ */
+export function finiteScore<T extends number | undefined>(value: unknown, fallback: T): number | T {
+  const numeric = typeof value === 'number' || (typeof value === 'string' && value.trim() !== '');
+  const score = Number(value);
+  return numeric && Number.isFinite(score) ? clamp(score) : fallback;
+}
+
+/**
+ * Match the evaluator's per-criterion scores to the rubric
+ * Criteria the evaluator left out or left unscored fall back to the completeness score
+ */
+export function alignCriterionScores(
+  rubric: RubricCriterion[],
+  raw: Array<{ criterion?: string; score?: unknown; rationale?: string }>,
+  fallbackScore: number
+): CriterionScore[] {
+  const byName = new Map(
+    raw
+      .filter(r => typeof r.criterion === 'string')
+      .map(r => [normalize(r.criterion as string), r])
+  );
+
+  return rubric.map(({ criterion, weight }) => {
+    const match = byName.get(normalize(criterion));
+    const score = finiteScore(match?.score, clamp(fallbackScore));
+    return {
+      criterion,
+      weight: Math.round(weight * 10) / 10,
+      score,
+      rationale: match?.rationale
+    };
+  });
+}
+
+/**
+ * Weighted average of criterion scores, 0-100
+ */
+export function weightedQuestionScore(scores: CriterionScore[]): number {
+  const totalWeight = scores.reduce((sum, s) => sum + s.weight, 0);
+  if (totalWeight === 0) return 0;
+  return Math.round(scores.reduce((sum, s) => sum + s.score * s.weight, 0) / totalWeight);
+}
+
+/**
+ * Interview score: mean of question scores, with skipped questions counted as 0
+ * Every asked question carries equal weight so candidates are comparable
+ */
+export function overallScore(questions: ScoredQuestion[]): OverallScore {
+  const skipped = questions.filter(q => q.skipped).length;
+  const scored = questions.filter(q => !q.skipped && q.question_score !== undefined);
+  const counted = scored.length + skipped;
+
+  if (counted === 0) {
+    return { overall_score: 0, scored_questions: 0, skipped_questions: skipped };
+  }
+
+  const total = scored.reduce((sum, q) => sum + (q.question_score ?? 0), 0);
+  return {
+    overall_score: Math.round(total / counted),
+    scored_questions: scored.length,
+    skipped_questions: skipped
+  };
+}
+
+function normalize(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function clamp(score: number): number {
+  return Math.max(0, Math.min(100, Math.round(score)));
+}
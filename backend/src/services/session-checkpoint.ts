@@ -0,0 +1,276 @@
+import { getRedisClient } from '../config/redis.js';
+import { logger } from '../utils/logger.js';
+import { HybridQuestionSelector } from './questionSelector.js';
+import { InterviewContext } from './interview-conversation-service.js';
+import { SpeechTiming } from './interview-metrics.js';
+import { DesignPhaseRecord } from './system-design-phases.js';
+
+// Keep checkpoints around long enough to come back the next day
+const CHECKPOINT_TTL_SECONDS = 24 * 60 * 60;
+
+// Write or delete the checkpoint only while the given socket holds the session lease
+const SAVE_IF_HOLDER_SCRIPT = `
+local lease = redis.call('GET', KEYS[1])
+if lease and cjson.decode(lease).socketId == ARGV[1] then
+  redis.call('SET', KEYS[2], ARGV[2], 'EX', ARGV[3])
+  return 1
+end
+return 0`;
+
+const CLEAR_IF_HOLDER_SCRIPT = `
+local lease = redis.call('GET', KEYS[1])
+if lease and cjson.decode(lease).socketId == ARGV[1] then
+  redis.call('DEL', KEYS[2])
+  return 1
+end
+return 0`;
+
+/**
+ * The socket a checkpoint write is made for, and the lease it must hold
+ */
+export interface CheckpointOwner {
+  leaseKey: string;
+  socketId: string;
+}
+
+type QuestionRecord = InterviewContext['interviewQuestions'][number];
+
+type SerializedSpeech = { prompt_finished_at?: string; started_at: string; ended_at: string };
+
+type SerializedDesignPhase = Omit<DesignPhaseRecord, 'started_at' | 'ended_at'> & { started_at: string; ended_at?: string };
+
+/**
+ * JSON-safe snapshot of an InterviewContext
+ * Databank questions are stored by ID and reloaded on restore
+ */
+export interface InterviewCheckpoint {
+  interviewId: string;
+  stage: InterviewContext['stage'];
+  questionsAsked: number;
+  maxQuestions: number;
+  targetDurationSeconds?: number;
+  startedAt: string;
+  pausedAt: string | null;
+  pausedSeconds: number;
+
+  keyRequirements: string[];
+  technicalSkills: string[];
+  softSkills: string[];
+  conversationHistory: InterviewContext['conversationHistory'];
+
+  questionPoolIds: number[];
+  askedQuestionIds: number[];
+  interviewQuestions: Array<Omit<QuestionRecord, 'asked_at' | 'speech' | 'follow_ups' | 'design_phases'> & {
+    asked_at: string;
+    speech?: SerializedSpeech;
+    design_phases?: SerializedDesignPhase[];
+    follow_ups: Array<Omit<QuestionRecord['follow_ups'][number], 'asked_at' | 'speech'> & {
+      asked_at: string;
+      speech?: SerializedSpeech;
+    }>;
+  }>;
+  currentQuestion: {
+    question_id: number;
+    text: string;
+    was_modified: boolean;
+    modification_reason?: string;
+    resume_reference?: string;
+    asked_at: string;
+  } | null;
+  currentFollowUp: (Omit<NonNullable<InterviewContext['currentFollowUp']>, 'asked_at'> & { asked_at: string }) | null;
+  currentDesign?: InterviewContext['currentDesign'];
+  currentCoding?: InterviewContext['currentCoding'];
+
+  savedAt: string;
+}
+
+/**
+ * Persists interview session state to Redis so a dropped connection
+ * can pick up where the candidate left off
+ */
+export class SessionCheckpointStore {
+  private questionSelector = new HybridQuestionSelector();
+
+  private key(interviewId: string): string {
+    return `interview:checkpoint:${interviewId}`;
+  }
+
+  /**
+   * Save the context; with an owner, only if that socket still holds the session
+   */
+  async save(context: InterviewContext, owner?: CheckpointOwner): Promise<void> {
+    try {
+      const checkpoint = JSON.stringify(this.serialize(context));
+      const key = this.key(context.interviewId);
+      if (owner) {
+        const saved = await getRedisClient().eval(
+          SAVE_IF_HOLDER_SCRIPT, 2, owner.leaseKey, key, owner.socketId, checkpoint, CHECKPOINT_TTL_SECONDS
+        );
+        if (saved !== 1) {
+          logger.warn(`[Checkpoint] Not saving ${context.interviewId}: socket ${owner.socketId} no longer holds the session`);
+          return;
+        }
+      } else {
+        await getRedisClient().set(key, checkpoint, 'EX', CHECKPOINT_TTL_SECONDS);
+      }
+      logger.debug(`[Checkpoint] Saved ${context.interviewId} at stage ${context.stage}`);
+    } catch (error) {
+      // A failed checkpoint must never break the live interview
+      logger.error(`[Checkpoint] Failed to save ${context.interviewId}:`, error);
+    }
+  }
+
+  async load(interviewId: string): Promise<InterviewCheckpoint | null> {
+    try {
+      const raw = await getRedisClient().get(this.key(interviewId));
+      return raw ? (JSON.parse(raw) as InterviewCheckpoint) : null;
+    } catch (error) {
+      logger.error(`[Checkpoint] Failed to load ${interviewId}:`, error);
+      return null;
+    }
+  }
+
+  async clear(interviewId: string, owner?: CheckpointOwner): Promise<void> {
+    try {
+      if (owner) {
+        await getRedisClient().eval(CLEAR_IF_HOLDER_SCRIPT, 2, owner.leaseKey, this.key(interviewId), owner.socketId);
+      } else {
+        await getRedisClient().del(this.key(interviewId));
+      }
+    } catch (error) {
+      logger.error(`[Checkpoint] Failed to clear ${interviewId}:`, error);
+    }
+  }
+
+  /**
+   * Rebuild a live context from a checkpoint and the interview's static fields
+   */
+  async restore(
+    checkpoint: InterviewCheckpoint,
+    base: Pick<InterviewContext, 'jobTitle' | 'jobDescription' | 'company' | 'interviewId' | 'template' | 'resume' | 'persona' | 'categoryQuotas'>
+  ): Promise<InterviewContext> {
+    const questionPool = await this.questionSelector.loadSelectedQuestions(
+      checkpoint.questionPoolIds.map((question_id, rank) => ({ question_id, rank }))
+    );
+
+    const current = checkpoint.currentQuestion;
+    const currentDoc = current ? questionPool.find(q => q.question_id === current.question_id) : undefined;
+
+    return {
+      ...base,
+      keyRequirements: checkpoint.keyRequirements,
+      technicalSkills: checkpoint.technicalSkills,
+      softSkills: checkpoint.softSkills,
+      stage: checkpoint.stage,
+      questionsAsked: checkpoint.questionsAsked,
+      maxQuestions: checkpoint.maxQuestions,
+      targetDurationSeconds: checkpoint.targetDurationSeconds,
+      startedAt: new Date(checkpoint.startedAt),
+      pausedAt: checkpoint.pausedAt ? new Date(checkpoint.pausedAt) : null,
+      pausedSeconds: checkpoint.pausedSeconds ?? 0,
+      conversationHistory: checkpoint.conversationHistory,
+      questionPool,
+      askedQuestionIds: checkpoint.askedQuestionIds,
+      interviewQuestions: checkpoint.interviewQuestions.map(qa => ({
+        ...qa,
+        asked_at: new Date(qa.asked_at),
+        speech: reviveSpeech(qa.speech),
+        follow_ups: qa.follow_ups.map(f => ({
+          ...f,
+          asked_at: new Date(f.asked_at),
+          speech: reviveSpeech(f.speech)
+        })),
+        design_phases: qa.design_phases?.map(p => ({
+          ...p,
+          started_at: new Date(p.started_at),
+          ended_at: p.ended_at ? new Date(p.ended_at) : undefined
+        }))
+      })),
+      currentQuestion: current && currentDoc
+        ? {
+            question: currentDoc,
+            text: current.text,
+            was_modified: current.was_modified,
+            modification_reason: current.modification_reason,
+            resume_reference: current.resume_reference,
+            asked_at: new Date(current.asked_at)
+          }
+        : null,
+      currentFollowUp: checkpoint.currentFollowUp
+        ? { ...checkpoint.currentFollowUp, asked_at: new Date(checkpoint.currentFollowUp.asked_at) }
+        : null,
+      currentDesign: checkpoint.currentDesign ?? null,
+      currentCoding: checkpoint.currentCoding ?? null
+    };
+  }
+
+  private serialize(context: InterviewContext): InterviewCheckpoint {
+    const current = context.currentQuestion;
+
+    return {
+      interviewId: context.interviewId,
+      stage: context.stage,
+      questionsAsked: context.questionsAsked,
+      maxQuestions: context.maxQuestions,
+      targetDurationSeconds: context.targetDurationSeconds,
+      startedAt: context.startedAt.toISOString(),
+      pausedAt: context.pausedAt?.toISOString() ?? null,
+      pausedSeconds: context.pausedSeconds,
+      keyRequirements: context.keyRequirements,
+      technicalSkills: context.technicalSkills,
+      softSkills: context.softSkills,
+      conversationHistory: context.conversationHistory,
+      questionPoolIds: context.questionPool.map(q => q.question_id),
+      askedQuestionIds: context.askedQuestionIds,
+      interviewQuestions: context.interviewQuestions.map(qa => ({
+        ...qa,
+        asked_at: qa.asked_at.toISOString(),
+        speech: serializeSpeech(qa.speech),
+        follow_ups: qa.follow_ups.map(f => ({
+          ...f,
+          asked_at: f.asked_at.toISOString(),
+          speech: serializeSpeech(f.speech)
+        })),
+        design_phases: qa.design_phases?.map(p => ({
+          ...p,
+          started_at: p.started_at.toISOString(),
+          ended_at: p.ended_at?.toISOString()
+        }))
+      })),
+      currentQuestion: current
+        ? {
+            question_id: current.question.question_id,
+            text: current.text,
+            was_modified: current.was_modified,
+            modification_reason: current.modification_reason,
+            resume_reference: current.resume_reference,
+            asked_at: current.asked_at.toISOString()
+          }
+        : null,
+      currentFollowUp: context.currentFollowUp
+        ? { ...context.currentFollowUp, asked_at: context.currentFollowUp.asked_at.toISOString() }
+        : null,
+      currentDesign: context.currentDesign,
+      currentCoding: context.currentCoding,
+      savedAt: new Date().toISOString()
+    };
+  }
+}
+
+function serializeSpeech(speech: SpeechTiming | undefined): SerializedSpeech | undefined {
+  if (!speech) return undefined;
+  return {
+    prompt_finished_at: speech.prompt_finished_at?.toISOString(),
+    started_at: speech.started_at.toISOString(),
+    ended_at: speech.ended_at.toISOString()
+  };
+}
+
+function reviveSpeech(speech: SerializedSpeech | undefined): SpeechTiming | undefined {
+  if (!speech) return undefined;
+  return {
+    prompt_finished_at: speech.prompt_finished_at ? new Date(speech.prompt_finished_at) : undefined,
+    started_at: new Date(speech.started_at),
+    ended_at: new Date(speech.ended_at)
+  };
+}
@@ -0,0 +1,109 @@
+import { hostname } from 'os';
+import { getRedisClient } from '../config/redis.js';
+import { logger } from '../utils/logger.js';
+
+// A lease expires unless renewed, so a crashed node frees its sessions
+const LEASE_TTL_SECONDS = 30;
+export const LEASE_RENEW_INTERVAL_MS = 10 * 1000;
+
+const NODE_ID = process.env.INSTANCE_ID || `${hostname()}-${process.pid}`;
+
+export interface SessionLease {
+  socketId: string;
+  nodeId: string;
+  acquiredAt: string;
+}
+
+// Only touch the lease if this socket still holds it
+const RENEW_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if current and cjson.decode(current).socketId == ARGV[1] then
+  return redis.call('EXPIRE', KEYS[1], ARGV[2])
+end
+return 0`;
+
+const RELEASE_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if current and cjson.decode(current).socketId == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0`;
+
+/**
+ * Cluster-wide registry of live interview sessions
+ * Each interview/user pair is held by at most one socket via a TTL lease
+ */
+export class SessionRegistry {
+  /**
+   * Redis key of the session's lease, for writes that must check the holder
+   */
+  leaseKey(interviewId: string, userId: string): string {
+    return `interview:session:${interviewId}:${userId}`;
+  }
+
+  /**
+   * Try to take the lease; returns the current holder if someone else has it
+   */
+  async acquire(
+    interviewId: string,
+    userId: string,
+    socketId: string
+  ): Promise<{ acquired: true } | { acquired: false; holder: SessionLease }> {
+    const redis = getRedisClient();
+    const key = this.leaseKey(interviewId, userId);
+    const lease: SessionLease = { socketId, nodeId: NODE_ID, acquiredAt: new Date().toISOString() };
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const result = await redis.set(key, JSON.stringify(lease), 'EX', LEASE_TTL_SECONDS, 'NX');
+      if (result === 'OK') {
+        return { acquired: true };
+      }
+
+      const raw = await redis.get(key);
+      if (raw) {
+        return { acquired: false, holder: JSON.parse(raw) as SessionLease };
+      }
+      // Lease expired between SET and GET - try again
+    }
+
+    throw new Error(`Could not acquire session lease for ${interviewId}`);
+  }
+
+  /**
+   * Unconditionally hand the lease to a new socket (takeover)
+   */
+  async forceAcquire(interviewId: string, userId: string, socketId: string): Promise<void> {
+    const lease: SessionLease = { socketId, nodeId: NODE_ID, acquiredAt: new Date().toISOString() };
+    await getRedisClient().set(this.leaseKey(interviewId, userId), JSON.stringify(lease), 'EX', LEASE_TTL_SECONDS);
+  }
+
+  /**
+   * Extend the lease; 'error' means Redis could not be reached and the lease may still be held
+   */
+  async renew(interviewId: string, userId: string, socketId: string): Promise<'held' | 'lost' | 'error'> {
+    try {
+      const renewed = await getRedisClient().eval(
+        RENEW_SCRIPT, 1, this.leaseKey(interviewId, userId), socketId, LEASE_TTL_SECONDS
+      );
+      return renewed === 1 ? 'held' : 'lost';
+    } catch (error) {
+      logger.error(`[SessionRegistry] Failed to renew lease for ${interviewId}:`, error);
+      return 'error';
+    }
+  }
+
+  async release(interviewId: string, userId: string, socketId: string): Promise<void> {
+    try {
+      await getRedisClient().eval(RELEASE_SCRIPT, 1, this.leaseKey(interviewId, userId), socketId);
+    } catch (error) {
+      logger.error(`[SessionRegistry] Failed to release lease for ${interviewId}:`, error);
+    }
+  }
+
+  /**
+   * Whether any socket in the cluster currently holds the session
+   */
+  async isActive(interviewId: string, userId: string): Promise<boolean> {
+    return (await getRedisClient().exists(this.leaseKey(interviewId, userId))) === 1;
+  }
+}
@@ -0,0 +1,117 @@
+import OpenAI from 'openai';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Stages whose exit depends on what the candidate says
+ * - ready_check: is the candidate ready to start the questions?
+ * - closing: is the candidate done and saying goodbye?
+ */
+export type TransitionStage = 'ready_check' | 'closing';
+
+export interface StageTransition {
+  intent: 'proceed' | 'hold' | 'unclear';
+  confidence: number; // 0-1
+  source: 'model' | 'offline';
+}
+
+// Below this the interviewer asks the candidate to confirm instead of acting
+export const TRANSITION_CONFIDENCE_THRESHOLD = 0.7;
+
+const HOLD_CUES: Record<TransitionStage, RegExp> = {
+  ready_check: /\b(no|not|nope|nah|wait|hold on|hang on|one (sec|second|moment|minute)|before we|dont|cant|wont|isnt)\b|n't\b/,
+  closing: /\b(actually|wait|hold on|one more|a question|before (we|you) (go|finish|end)|can i ask|i wanted to)\b/
+};
+
+const PROCEED_CUES: Record<TransitionStage, RegExp> = {
+  ready_check: /\b(yes|yeah|yep|yup|sure|ready|let'?s (go|do it|start|begin)|go ahead|ok(ay)?|definitely|absolutely|of course|i'?m good|sounds good|fire away|shoot)\b/,
+  closing: /\b(bye|goodbye|good bye|see you|take care|thanks|thank you|have a (good|great|nice) (day|one|evening|weekend)|that'?s (all|it)|nothing else|no more questions|i'?m done|all good)\b/
+};
+
+const STAGE_QUESTIONS: Record<TransitionStage, string> = {
+  ready_check: 'The interviewer asked whether the candidate is ready to start the interview questions. "proceed" means they are ready to start now. "hold" means they are not ready, want to wait, or have a question first.',
+  closing: 'The interviewer has wrapped up the interview and said goodbye. "proceed" means the candidate is saying goodbye or has nothing more to add. "hold" means they have a question, comment or want to add something before ending.'
+};
+
+/**
+ * Decides whether the candidate's reply should move the interview to the next stage
+ * Uses the model when available, with a deterministic pattern fallback
+ */
+export class StageTransitionClassifier {
+  private openai: OpenAI;
+
+  constructor() {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error('OPENAI_API_KEY is not defined');
+    }
+    this.openai = new OpenAI({ apiKey });
+  }
+
+  async classify(stage: TransitionStage, message: string, lastInterviewerMessage?: string): Promise<StageTransition> {
+    try {
+      return await this.classifyWithModel(stage, message, lastInterviewerMessage);
+    } catch (error) {
+      logger.warn('[StageTransition] Model classification failed, using offline fallback:', error);
+      return this.classifyOffline(stage, message);
+    }
+  }
+
+  /**
+   * Deterministic fallback: a hold cue anywhere (e.g. a negation) blocks the transition
+   */
+  classifyOffline(stage: TransitionStage, message: string): StageTransition {
+    const normalized = message.toLowerCase().replace(/[’]/g, "'").trim();
+    const held = HOLD_CUES[stage].test(normalized);
+    const proceed = PROCEED_CUES[stage].test(normalized);
+
+    if (proceed && !held) {
+      // Short, direct replies are the most reliable
+      const confidence = normalized.split(/\s+/).length <= 6 ? 0.9 : 0.75;
+      return { intent: 'proceed', confidence, source: 'offline' };
+    }
+    if (held) {
+      return { intent: 'hold', confidence: proceed ? 0.5 : 0.8, source: 'offline' };
+    }
+    return { intent: 'unclear', confidence: 0.3, source: 'offline' };
+  }
+
+  private async classifyWithModel(
+    stage: TransitionStage,
+    message: string,
+    lastInterviewerMessage?: string
+  ): Promise<StageTransition> {
+    const prompt = `${STAGE_QUESTIONS[stage]}
+
+${lastInterviewerMessage ? `Interviewer: "${lastInterviewerMessage}"\n` : ''}Candidate: "${message}"
+
+Classify the candidate's reply as "proceed", "hold" or "unclear", with your confidence from 0 to 1.
+Watch for negations ("I'm not okay yet") and for politeness that is not a goodbye ("great question, but...").
+
+Return JSON: { "intent": "proceed" | "hold" | "unclear", "confidence": 0.0 }`;
+
+    const response = await this.openai.chat.completions.create({
+      model: 'gpt-4o-mini',
+      temperature: 0,
+      max_tokens: 30,
+      response_format: { type: 'json_object' },
+      messages: [
+        { role: 'system', content: 'You classify conversation turns in a job interview. Always return valid JSON.' },
+        { role: 'user', content: prompt }
+      ]
+    });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error('Empty response from OpenAI');
+    }
+
+    const parsed = JSON.parse(content) as { intent?: string; confidence?: number };
+    if (parsed.intent !== 'proceed' && parsed.intent !== 'hold' && parsed.intent !== 'unclear') {
+      throw new Error(`Unknown transition intent: ${parsed.intent}`);
+    }
+
+    const confidence = Math.min(1, Math.max(0, Number(parsed.confidence) || 0));
+    logger.debug(`[StageTransition] ${stage}: ${parsed.intent} (${confidence})`);
+    return { intent: parsed.intent, confidence, source: 'model' };
+  }
+}
@@ -0,0 +1,86 @@
+import { IQuestion } from '../models/Question.js';
+
+export type StarComponent = 'situation' | 'task' | 'action' | 'result';
+
+export const STAR_COMPONENTS: StarComponent[] = ['situation', 'task', 'action', 'result'];
+
+export interface StarSegment {
+  component: StarComponent;
+  present: boolean;
+  excerpt?: string; // The part of the answer that covers this component
+}
+
+export interface StarAnalysis {
+  segments: StarSegment[];
+  missing: StarComponent[];
+  completeness: number; // 0-100, share of components present
+}
+
+export interface StarFollowUp {
+  component: StarComponent;
+  question_text: string;
+}
+
+const STAR_FOLLOW_UPS: Record<StarComponent, string> = {
+  situation: 'Can you set the scene a bit more? Where was this, and what was going on at the time?',
+  task: 'What specifically were you responsible for in that situation?',
+  action: 'What did you personally do? Walk me through the steps you took.',
+  result: 'What was the outcome, and was there a measurable result?',
+};
+
+// Missing components are probed in this order; actions and results carry most of the signal
+const FOLLOW_UP_PRIORITY: StarComponent[] = ['result', 'action', 'task', 'situation'];
+
+// Offline cues, used when the evaluator returns no segmentation
+const STAR_CUES: Record<StarComponent, RegExp> = {
+  situation: /\b(at my (last|previous|current)|when i was|back (in|when)|we were|there was|there were|our (team|company|project)|the (team|company|project|client) (was|had))\b/i,
+  task: /\b(i was (responsible|asked|tasked|in charge)|my (role|job|task|goal|responsibility) was|i needed to|i had to|the goal was|we needed to)\b/i,
+  action: /\b(i (decided|built|wrote|led|organi[sz]ed|proposed|talked|met|created|implemented|designed|set up|reached out|started|worked|suggested|introduced|scheduled|refactored|negotiated))\b/i,
+  result: /\b(as a result|in the end|ended up|resulted|outcome|reduced|increased|improved|saved|shipped|launched|we delivered|\d+\s?(%|percent|x\b))/i,
+};
+
+/**
+ * Behavioral questions are evaluated with STAR analysis instead of key points alone
+ */
+export function isBehavioral(question: Pick<IQuestion, 'category'>): boolean {
+  return question.category === 'behavioral';
+}
+
+/**
+ * Splits a behavioral answer into Situation, Task, Action and Result
+ */
+export class StarAnalyzer {
+  /**
+   * Build the analysis from the evaluator's "star" object ({ situation: "<excerpt>", ... })
+   * Components the evaluator did not report are checked against offline cues
+   */
+  analyze(transcript: string, raw?: unknown): StarAnalysis {
+    const reported = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : null;
+    const sentences = transcript.split(/(?<=[.!?])\s+|\n+/).map(s => s.trim()).filter(Boolean);
+
+    const segments = STAR_COMPONENTS.map((component): StarSegment => {
+      if (reported && component in reported) {
+        const excerpt = typeof reported[component] === 'string' ? (reported[component] as string).trim() : '';
+        return excerpt ? { component, present: true, excerpt } : { component, present: false };
+      }
+
+      const match = sentences.find(sentence => STAR_CUES[component].test(sentence));
+      return match ? { component, present: true, excerpt: match } : { component, present: false };
+    });
+
+    const missing = segments.filter(s => !s.present).map(s => s.component);
+    return {
+      segments,
+      missing,
+      completeness: Math.round(((STAR_COMPONENTS.length - missing.length) / STAR_COMPONENTS.length) * 100),
+    };
+  }
+
+  /**
+   * The follow-up for the most important missing component not yet asked about, if any
+   */
+  followUp(analysis: StarAnalysis, askedComponents: StarComponent[]): StarFollowUp | null {
+    const component = FOLLOW_UP_PRIORITY.find(c => analysis.missing.includes(c) && !askedComponents.includes(c));
+    return component ? { component, question_text: STAR_FOLLOW_UPS[component] } : null;
+  }
+}
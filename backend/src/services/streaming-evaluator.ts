@@ -2,8 +2,14 @@ import OpenAI from 'openai';
 import { Socket } from 'socket.io';
 import { IQuestion } from '../models/Question.js';
 import { logger } from '../utils/logger.js';
+import { CriterionScore, RubricCriterion, alignCriterionScores, finiteScore, rubricFor, weightedQuestionScore } from './rubric-scoring.js';
+import { StarAnalysis, StarAnalyzer, isBehavioral } from './star-analysis.js';
+import { DESIGN_PHASES, DesignPhase, DesignPhaseRecord, designRubric } from './system-design-phases.js';
 
-interface StreamingEvaluationResult {
+// Feedback for an answer the evaluator could not score; it counts toward no score
+export const UNSCORED_FEEDBACK = 'Unscored: the answer could not be evaluated';
+
+export interface StreamingEvaluationResult {
   completeness_score: number;
   confidence_score: number;
   key_points_covered: string[];
@@ -11,6 +17,11 @@ interface StreamingEvaluationResult {
   is_complete: boolean;
   needs_follow_up: boolean;
   follow_up_question?: string;
+  triggered_follow_ups: number[]; // Indexes into question.follow_up_questions
+  criterion_scores: CriterionScore[];
+  question_score?: number; // Weighted from criterion_scores; unset when the evaluator failed
+  star?: StarAnalysis; // Behavioral questions only
+  design_phases?: Array<{ phase: DesignPhase; score?: number; rationale?: string }>; // System design questions only; score unset when unscored
   feedback: string;
   next_action: 'move_next' | 'ask_follow_up' | 'clarify';
   full_response: string;
@@ -21,6 +32,7 @@ interface StreamingEvaluationResult {
  */
 export class StreamingEvaluator {
   private openai: OpenAI;
+  private starAnalyzer = new StarAnalyzer();
 
   constructor() {
     const apiKey = process.env.OPENAI_API_KEY;
@@ -34,14 +46,18 @@ export class StreamingEvaluator {
    * Evaluate answer with streaming response
    * Immediately sends filling phrase, then evaluates answer
    * Returns natural conversational feedback
+   * candidateTurns is what the candidate alone said, for the offline STAR cues; defaults to the transcript
    */
   async evaluateAnswerStreaming(
     question: IQuestion,
     transcript: string,
     previousContext: any[],
-    socket: Socket
+    socket: Socket,
+    defaultRubric?: RubricCriterion[],
+    candidateTurns: string = transcript
   ): Promise<StreamingEvaluationResult> {
     const startTime = Date.now();
+    const rubric = rubricFor(question, defaultRubric);
     logger.info(`⚡ [T+0ms] Starting streaming evaluation`);
 
     // Step 1: Send filling phrase IMMEDIATELY
@@ -50,7 +66,10 @@ export class StreamingEvaluator {
     logger.info(`⚡ [T+${Date.now() - startTime}ms] Filling phrase sent: "${fillingPhrase}"`);
 
     // Step 2: Quick LLM evaluation to determine if follow-up is needed
-    const prompt = this.buildEvaluationPrompt(question, transcript, previousContext);
+    const behavioral = isBehavioral(question);
+    const prompt = behavioral
+      ? this.buildBehavioralPrompt(question, transcript, rubric)
+      : this.buildEvaluationPrompt(question, transcript, previousContext, rubric);
 
     try {
       const llmStartTime = Date.now();
@@ -59,12 +78,14 @@ export class StreamingEvaluator {
       // Get evaluation from LLM (non-streaming for quick decision)
       const response = await this.openai.chat.completions.create({
         model: 'gpt-4o-mini',
-        max_tokens: 300,
-        temperature: 0.7,
+        max_tokens: 700,
+        temperature: 0.2,
         messages: [
           {
             role: 'system',
-            content: 'You are a technical interviewer evaluating answers. Respond with JSON only.'
+            content: behavioral
+              ? 'You are a behavioral interviewer evaluating answers with the STAR method. Respond with JSON only.'
+              : 'You are a technical interviewer evaluating answers. Respond with JSON only.'
           },
           {
             role: 'user',
@@ -77,7 +98,7 @@ export class StreamingEvaluator {
       logger.info(`⚡ [T+${Date.now() - startTime}ms] LLM evaluation complete`);
 
       // Step 3: Parse response to extract structured evaluation
-      const evaluation = await this.parseEvaluationResponse(fullResponse, question, transcript);
+      const evaluation = await this.parseEvaluationResponse(fullResponse, question, candidateTurns, rubric);
 
       // Step 4: If follow-up is needed, log it
       if (evaluation.needs_follow_up && evaluation.follow_up_question) {
@@ -94,13 +115,6 @@ export class StreamingEvaluator {
     } catch (error) {
       logger.error('Error in streaming evaluation:', error);
 
-      // Fallback: send a generic follow-up
-      socket.emit('question', {
-        question_id: `${question.question_id}_followup`,
-        text: 'Could you elaborate a bit more on that?',
-        is_follow_up: true
-      });
-
       return {
         completeness_score: 50,
         confidence_score: 50,
@@ -109,13 +123,85 @@ export class StreamingEvaluator {
         is_complete: false,
         needs_follow_up: true,
         follow_up_question: 'Could you elaborate a bit more on that?',
-        feedback: 'Streaming evaluation error - using fallback',
+        triggered_follow_ups: [],
+        criterion_scores: [],
+        star: behavioral ? this.starAnalyzer.analyze(candidateTurns) : undefined,
+        feedback: UNSCORED_FEEDBACK,
         next_action: 'ask_follow_up',
         full_response: ''
       };
     }
   }
 
+  /**
+   * Score a finished system design question phase by phase
+   * Phases the candidate never reached score 0
+   */
+  async evaluateDesignPhases(
+    question: IQuestion,
+    phases: DesignPhaseRecord[],
+    socket: Socket
+  ): Promise<StreamingEvaluationResult> {
+    const rubric = designRubric();
+    socket.emit('filling_phrase', { text: this.selectFillingPhrase(phases.map(p => p.transcript).join(' ')) });
+
+    let fullResponse = '';
+    let parsed: any = {};
+    try {
+      const response = await this.openai.chat.completions.create({
+        model: 'gpt-4o-mini',
+        max_tokens: 900,
+        temperature: 0.3,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: 'You are a staff engineer scoring a system design interview. Respond with JSON only.' },
+          { role: 'user', content: this.buildDesignPrompt(question, phases) }
+        ]
+      });
+      fullResponse = response.choices[0]?.message?.content || '';
+      parsed = JSON.parse(fullResponse);
+    } catch (error) {
+      logger.error('Error in system design evaluation:', error);
+    }
+
+    const reported = new Map<string, { score?: number; rationale?: string }>(
+      (Array.isArray(parsed.phase_scores) ? parsed.phase_scores : []).map((p: any) => [String(p.phase), p])
+    );
+    const design_phases = DESIGN_PHASES.map(({ phase }) => {
+      const run = phases.find(p => p.phase === phase);
+      if (!run?.transcript.trim()) {
+        return { phase, score: 0, rationale: 'Not reached' };
+      }
+      const raw = reported.get(phase);
+      return { phase, score: finiteScore(raw?.score, undefined), rationale: raw?.rationale };
+    });
+
+    // A reached phase the evaluator did not score leaves the whole question unscored
+    const unscored = design_phases.some(p => p.score === undefined);
+    const scores = unscored
+      ? { criterion_scores: [], question_score: undefined }
+      : this.rubricScores(
+          rubric,
+          design_phases.map((p, i) => ({ criterion: DESIGN_PHASES[i].label, score: p.score, rationale: p.rationale })),
+          0
+        );
+
+    return {
+      completeness_score: scores.question_score ?? 50,
+      confidence_score: finiteScore(parsed.confidence_score, 50),
+      key_points_covered: Array.isArray(parsed.key_points_covered) ? parsed.key_points_covered.map(String) : [],
+      key_points_missed: Array.isArray(parsed.key_points_missed) ? parsed.key_points_missed.map(String) : [],
+      is_complete: true,
+      needs_follow_up: false,
+      triggered_follow_ups: [],
+      ...scores,
+      design_phases,
+      feedback: unscored ? UNSCORED_FEEDBACK : parsed.feedback || '',
+      next_action: 'move_next',
+      full_response: fullResponse
+    };
+  }
+
   /**
    * Select intelligent filling phrase based on transcript content
    */
@@ -157,7 +243,8 @@ export class StreamingEvaluator {
   private buildEvaluationPrompt(
     question: IQuestion,
     transcript: string,
-    previousContext: any[]
+    previousContext: any[],
+    rubric: RubricCriterion[]
   ): string {
     return `Evaluate this technical interview answer. Respond with JSON only.
 
@@ -168,18 +255,28 @@ CANDIDATE'S ANSWER:
 ${transcript}
 
 EXPECTED KEY POINTS:
-${question.expected_key_points?.join(', ') || 'General understanding'}
+${question.expected_key_points?.join('\n') || 'General understanding'}
+
+EVALUATION CRITERIA (weight out of 100):
+${rubric.map(c => `- ${c.criterion} (${Math.round(c.weight)})`).join('\n')}
 
 Respond with JSON in this exact format:
 {
   "completeness_score": <0-100>,
   "confidence_score": <0-100>,
+  "key_points_covered": [<expected key points the answer covered, copied verbatim>],
+  "key_points_missed": [<expected key points the answer missed, copied verbatim>],
   "is_complete": <boolean>,
   "needs_follow_up": <boolean>,
   "follow_up_question": "<only if needs_follow_up is true, a short clarifying question>",
+  "triggered_follow_ups": [<indexes of FOLLOW-UP TRIGGERS whose condition is met by this answer>],
+  "criterion_scores": [{ "criterion": "<each EVALUATION CRITERION, copied verbatim>", "score": <0-100>, "rationale": "<one sentence>" }],
   "feedback": "<brief evaluation>"
 }
 
+FOLLOW-UP TRIGGERS:
+${question.follow_up_questions?.map((f, i) => `${i}: ${f.trigger_condition}`).join('\n') || 'None'}
+
 STRICT Guidelines for needs_follow_up:
 - Set needs_follow_up=false if answer demonstrates ANY understanding (even if incomplete)
 - Set needs_follow_up=true ONLY if:
@@ -191,13 +288,107 @@ STRICT Guidelines for needs_follow_up:
 - Maximum 1 follow-up per question, then move on`;
   }
 
+  /**
+   * Build prompt for a behavioral answer: STAR segmentation plus the usual scores
+   */
+  private buildBehavioralPrompt(
+    question: IQuestion,
+    transcript: string,
+    rubric: RubricCriterion[]
+  ): string {
+    return `Evaluate this behavioral interview answer using the STAR method. Respond with JSON only.
+
+QUESTION:
+${question.question_text}
+
+CANDIDATE'S ANSWER:
+${transcript}
+
+EXPECTED KEY POINTS:
+${question.expected_key_points?.join('\n') || 'A specific, relevant story'}
+
+EVALUATION CRITERIA (weight out of 100):
+${rubric.map(c => `- ${c.criterion} (${Math.round(c.weight)})`).join('\n')}
+
+Split the answer into STAR components:
+- situation: the context of a specific, real past event
+- task: what the candidate was responsible for or trying to achieve
+- action: what the candidate personally did (not "we")
+- result: the outcome, ideally measurable, or what they learned
+For each component, quote the shortest part of the answer that covers it, or "" if the answer does not cover it. Hypothetical answers ("I would...") have no situation.
+
+Respond with JSON in this exact format:
+{
+  "star": { "situation": "<quote or empty>", "task": "<quote or empty>", "action": "<quote or empty>", "result": "<quote or empty>" },
+  "completeness_score": <0-100>,
+  "confidence_score": <0-100>,
+  "key_points_covered": [<expected key points the answer covered, copied verbatim>],
+  "key_points_missed": [<expected key points the answer missed, copied verbatim>],
+  "is_complete": <boolean>,
+  "needs_follow_up": <boolean>,
+  "follow_up_question": "<only if needs_follow_up is true, a short clarifying question>",
+  "triggered_follow_ups": [<indexes of FOLLOW-UP TRIGGERS whose condition is met by this answer>],
+  "criterion_scores": [{ "criterion": "<each EVALUATION CRITERION, copied verbatim>", "score": <0-100>, "rationale": "<one sentence>" }],
+  "feedback": "<brief evaluation>"
+}
+
+FOLLOW-UP TRIGGERS:
+${question.follow_up_questions?.map((f, i) => `${i}: ${f.trigger_condition}`).join('\n') || 'None'}
+
+Guidelines:
+- Missing STAR components are followed up separately; set needs_follow_up=true ONLY if the candidate gave no story at all
+- Score a story lower when the result is missing or the actions are the team's rather than the candidate's`;
+  }
+
+  /**
+   * Build prompt for scoring each phase of a system design question
+   */
+  private buildDesignPrompt(question: IQuestion, phases: DesignPhaseRecord[]): string {
+    const transcript = phases.map(p => {
+      const definition = DESIGN_PHASES.find(d => d.phase === p.phase)!;
+      const used = p.ended_at ? Math.round((p.ended_at.getTime() - p.started_at.getTime()) / 60000) : undefined;
+      const timing = used !== undefined ? ` (${used} of ${Math.round(p.budget_seconds / 60)} min)` : '';
+      return `[${p.phase}] ${definition.label}${timing}:\n${p.transcript || '(nothing said)'}`;
+    }).join('\n\n');
+
+    return `Score this system design interview answer phase by phase. Respond with JSON only.
+
+QUESTION:
+${question.question_text}
+
+EXPECTED KEY POINTS:
+${question.expected_key_points?.join('\n') || 'A reasonable, scalable design'}
+
+CANDIDATE'S ANSWERS BY PHASE:
+${transcript}
+
+What each phase should show:
+- requirements: functional and non-functional requirements, scope agreed before designing
+- estimation: sensible traffic, storage and bandwidth numbers
+- high_level: clear components, data flow and APIs
+- deep_dive: depth on a critical component (data model, scaling, consistency, failures)
+- trade_offs: honest weaknesses, alternatives and what changes at larger scale
+
+Respond with JSON in this exact format:
+{
+  "phase_scores": [{ "phase": "<requirements|estimation|high_level|deep_dive|trade_offs>", "score": <0-100>, "rationale": "<one sentence>" }],
+  "confidence_score": <0-100>,
+  "key_points_covered": [<expected key points the answer covered, copied verbatim>],
+  "key_points_missed": [<expected key points the answer missed, copied verbatim>],
+  "feedback": "<brief evaluation>"
+}
+
+Judge each phase on what was said in it, but give credit when a point was covered in an earlier or later phase.`;
+  }
+
   /**
    * Parse the JSON evaluation response from LLM
    */
   private async parseEvaluationResponse(
     response: string,
     question: IQuestion,
-    transcript: string
+    candidateTurns: string,
+    rubric: RubricCriterion[]
   ): Promise<Omit<StreamingEvaluationResult, 'full_response'>> {
     try {
       // Extract JSON from response (in case LLM adds extra text)
@@ -207,21 +398,31 @@ STRICT Guidelines for needs_follow_up:
       }
 
       const parsed = JSON.parse(jsonMatch[0]);
+      const completeness = finiteScore(parsed.completeness_score, 50);
 
       return {
-        completeness_score: parsed.completeness_score || 50,
-        confidence_score: parsed.confidence_score || 50,
-        key_points_covered: [],
-        key_points_missed: [],
+        completeness_score: completeness,
+        confidence_score: finiteScore(parsed.confidence_score, 50),
+        key_points_covered: Array.isArray(parsed.key_points_covered) ? parsed.key_points_covered.map(String) : [],
+        key_points_missed: Array.isArray(parsed.key_points_missed) ? parsed.key_points_missed.map(String) : [],
         is_complete: parsed.is_complete !== false,
         needs_follow_up: parsed.needs_follow_up === true,
         follow_up_question: parsed.follow_up_question,
+        triggered_follow_ups: Array.isArray(parsed.triggered_follow_ups)
+          ? parsed.triggered_follow_ups.map(Number).filter(Number.isInteger)
+          : [],
+        ...this.rubricScores(
+          rubric,
+          Array.isArray(parsed.criterion_scores) ? parsed.criterion_scores : [],
+          completeness
+        ),
+        star: isBehavioral(question) ? this.starAnalyzer.analyze(candidateTurns, parsed.star) : undefined,
         feedback: parsed.feedback || '',
         next_action: parsed.needs_follow_up ? 'ask_follow_up' : 'move_next'
       };
     } catch (error) {
       logger.error('Failed to parse LLM evaluation JSON:', error);
-      // Fallback to simple evaluation
+      // Leave the answer unscored rather than guess; the interview still moves on
       return {
         completeness_score: 60,
         confidence_score: 60,
@@ -229,9 +430,24 @@ STRICT Guidelines for needs_follow_up:
         key_points_missed: [],
         is_complete: true,
         needs_follow_up: false,
-        feedback: 'Evaluation completed',
+        triggered_follow_ups: [],
+        criterion_scores: [],
+        star: isBehavioral(question) ? this.starAnalyzer.analyze(candidateTurns) : undefined,
+        feedback: UNSCORED_FEEDBACK,
         next_action: 'move_next'
       };
     }
   }
+
+  /**
+   * Per-criterion scores and the weighted question score
+   */
+  private rubricScores(
+    rubric: RubricCriterion[],
+    raw: Array<{ criterion?: string; score?: number; rationale?: string }>,
+    fallbackScore: number
+  ): { criterion_scores: CriterionScore[]; question_score: number } {
+    const criterion_scores = alignCriterionScores(rubric, raw, fallbackScore);
+    return { criterion_scores, question_score: weightedQuestionScore(criterion_scores) };
+  }
 }
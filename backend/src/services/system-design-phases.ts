@@ -0,0 +1,111 @@
+import { IQuestion } from '../models/Question.js';
+import { RubricCriterion } from './rubric-scoring.js';
+
+export type DesignPhase = 'requirements' | 'estimation' | 'high_level' | 'deep_dive' | 'trade_offs';
+
+export interface DesignPhaseDefinition {
+  phase: DesignPhase;
+  label: string;
+  share: number; // Fraction of the question's time budget
+  weight: number; // Weight in the question score, out of 100
+  opening: string; // Interviewer instruction when the phase starts
+  guidance: string; // How the interviewer behaves while the phase is running
+}
+
+/**
+ * One phase of a system design question as it was run
+ */
+export interface DesignPhaseRecord {
+  phase: DesignPhase;
+  budget_seconds: number;
+  started_at: Date;
+  ended_at?: Date;
+  transcript: string; // The candidate's turns in this phase
+  turns: number;
+  score?: number;
+  rationale?: string;
+}
+
+export const DESIGN_PHASES: DesignPhaseDefinition[] = [
+  {
+    phase: 'requirements',
+    label: 'Requirements',
+    share: 0.15,
+    weight: 20,
+    opening: 'Ask the candidate to start by clarifying the functional and non-functional requirements before designing anything.',
+    guidance: 'Answer clarifying questions with reasonable assumptions. If they jump into the design, steer them back to scope first.',
+  },
+  {
+    phase: 'estimation',
+    label: 'Estimation',
+    share: 0.1,
+    weight: 10,
+    opening: 'Ask them for back-of-the-envelope estimates: traffic, storage and bandwidth.',
+    guidance: 'Give numbers when asked (users, requests per second, data sizes). Check that their arithmetic is in the right ballpark.',
+  },
+  {
+    phase: 'high_level',
+    label: 'High-level design',
+    share: 0.3,
+    weight: 30,
+    opening: 'Ask them to sketch the high-level design: the main components, how data flows between them, and the APIs.',
+    guidance: 'Let them drive. Ask what a component does or why it is there when it is unclear, but do not suggest components.',
+  },
+  {
+    phase: 'deep_dive',
+    label: 'Deep dive',
+    share: 0.3,
+    weight: 25,
+    opening: 'Pick the most critical or interesting component of their design and ask them to go deeper: data model, scaling, consistency or failure handling.',
+    guidance: 'Push on bottlenecks, hot spots and what happens when a component fails.',
+  },
+  {
+    phase: 'trade_offs',
+    label: 'Trade-offs',
+    share: 0.15,
+    weight: 15,
+    opening: 'Ask them which trade-offs they made, what the weak points of the design are, and what they would change at ten times the scale.',
+    guidance: 'Challenge one of their choices and ask for an alternative.',
+  },
+];
+
+// Candidate turns per phase before the interviewer moves on, whatever the clock says
+export const MAX_PHASE_TURNS = 3;
+
+// Used when a question's estimated_time is too short for a phased round
+const DEFAULT_DESIGN_SECONDS = 35 * 60;
+const MIN_DESIGN_SECONDS = 15 * 60;
+
+/**
+ * System design questions run through the phases instead of a single answer
+ */
+export function isSystemDesign(question: Pick<IQuestion, 'category'>): boolean {
+  return question.category === 'system-design';
+}
+
+export function designPhase(phase: DesignPhase): DesignPhaseDefinition {
+  return DESIGN_PHASES.find(p => p.phase === phase)!;
+}
+
+export function nextDesignPhase(phase: DesignPhase): DesignPhaseDefinition | undefined {
+  return DESIGN_PHASES[DESIGN_PHASES.findIndex(p => p.phase === phase) + 1];
+}
+
+/**
+ * Seconds for a whole design question, capped by what is left of the interview
+ */
+export function designBudgetSeconds(question: Pick<IQuestion, 'estimated_time'>, remainingSeconds?: number): number {
+  const budget = question.estimated_time >= MIN_DESIGN_SECONDS ? question.estimated_time : DEFAULT_DESIGN_SECONDS;
+  return remainingSeconds !== undefined ? Math.max(60, Math.min(budget, remainingSeconds)) : budget;
+}
+
+export function phaseBudgetSeconds(totalSeconds: number, phase: DesignPhase): number {
+  return Math.round(totalSeconds * designPhase(phase).share);
+}
+
+/**
+ * Phases as rubric criteria, so the question score is the weighted phase scores
+ */
+export function designRubric(): RubricCriterion[] {
+  return DESIGN_PHASES.map(p => ({ criterion: p.label, weight: p.weight }));
+}
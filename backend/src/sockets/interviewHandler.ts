@@ -1,13 +1,19 @@
 import { Socket } from 'socket.io';
 import { InterviewConversationService, InterviewContext } from '../services/interview-conversation-service.js';
-import Interview from '../models/Interview.js';
+import Interview, { IInterview } from '../models/Interview.js';
+import { HybridQuestionSelector } from '../services/questionSelector.js';
+import { SessionCheckpointStore } from '../services/session-checkpoint.js';
+import { SessionRegistry, LEASE_RENEW_INTERVAL_MS } from '../services/session-registry.js';
+import { ClientSpeechTiming, toServerTiming } from '../services/interview-metrics.js';
+import { CODE_LANGUAGES, CodeLanguage } from '../services/code-runner.js';
+import { interviewerPersona } from '../services/interviewer-personas.js';
 import { logger } from '../utils/logger.js';
 
-// Active sessions tracking (prevent duplicates)
-const activeSessions = new Map<string, boolean>();
-
 // Lazy initialization
 let conversationService: InterviewConversationService | null = null;
+const questionSelector = new HybridQuestionSelector();
+const checkpoints = new SessionCheckpointStore();
+const registry = new SessionRegistry();
 
 function getService(): InterviewConversationService {
   if (!conversationService) {
@@ -23,64 +29,151 @@ export async function handleInterview(
 ) {
   // Prevent duplicate sessions
   const sessionKey = `${interviewId}-${userId}`;
-  if (activeSessions.get(sessionKey)) {
+  if (socket.data.joinedInterviewId === interviewId) {
     logger.warn(`[Interview] Session already active: ${sessionKey}`);
     socket.emit('error', { message: 'Interview session already active' });
     return;
   }
 
-  activeSessions.set(sessionKey, true);
+  try {
+    const lease = await registry.acquire(interviewId, userId, socket.id);
+    if (!lease.acquired) {
+      // Latest tab or device wins - evict the previous holder on whichever node it lives
+      const { holder } = lease;
+      logger.info(`[Interview] Taking over ${sessionKey} from socket ${holder.socketId} on ${holder.nodeId}`);
+      socket.nsp.to(holder.socketId).emit('session_taken_over', {
+        message: 'This interview was opened in another tab or device'
+      });
+      socket.nsp.in(holder.socketId).disconnectSockets(true);
+      // From here the evicted socket's checkpoint writes are refused, so its in-flight turn cannot overwrite ours
+      await registry.forceAcquire(interviewId, userId, socket.id);
+    }
+  } catch (error) {
+    logger.error('[Interview] Failed to acquire session lease:', error);
+    socket.emit('error', { message: 'Server error' });
+    return;
+  }
+
+  socket.data.joinedInterviewId = interviewId;
   logger.info(`[Interview] Starting session: ${sessionKey}`);
 
+  // Keep the lease alive while this socket is connected
+  // A lost lease means another socket may own the session, so this one ends; a Redis
+  // error is retried on the next tick, well within the lease TTL
+  const renewTimer = setInterval(() => {
+    registry.renew(interviewId, userId, socket.id)
+      .then(status => {
+        if (status === 'held') return;
+        if (status === 'error') {
+          logger.warn(`[Interview] Could not renew session lease, retrying: ${sessionKey}`);
+          return;
+        }
+        logger.warn(`[Interview] Lost session lease, ending session: ${sessionKey}`);
+        clearInterval(renewTimer);
+        socket.emit('session_taken_over', {
+          message: 'This interview session was lost. Reopen the interview to continue'
+        });
+        socket.disconnect(true);
+      })
+      .catch(error => logger.error(`[Interview] Lease renewal failed for ${sessionKey}:`, error));
+  }, LEASE_RENEW_INTERVAL_MS);
+
+  const releaseSession = () => {
+    clearInterval(renewTimer);
+    socket.data.joinedInterviewId = undefined;
+    registry.release(interviewId, userId, socket.id);
+  };
+
+  // Set once the context is loaded; the last turn is saved before the lease is released
+  let flushCheckpoint: (() => Promise<void>) | undefined;
+
   // Cleanup on disconnect
   socket.on('disconnect', () => {
-    activeSessions.delete(sessionKey);
-    logger.info(`[Interview] Cleaned up session: ${sessionKey}`);
+    (flushCheckpoint?.() ?? Promise.resolve())
+      .catch(error => logger.error(`[Interview] Failed to checkpoint ${sessionKey} on disconnect:`, error))
+      .finally(() => {
+        releaseSession();
+        logger.info(`[Interview] Cleaned up session: ${sessionKey}`);
+      });
   });
 
   try {
     // Load interview from database
     const interview = await Interview.findOne({ _id: interviewId, userId });
     if (!interview) {
-      activeSessions.delete(sessionKey);
+      releaseSession();
       socket.emit('error', { message: 'Interview not found' });
       return;
     }
 
-    logger.info(`[Interview] Loaded interview: ${interview.title} at ${interview.company}`);
+    logger.info(`[Interview] Loaded ${interview.modality} interview: ${interview.title} at ${interview.company} (${interview.persona})`);
 
     // Update status to in-progress
     await Interview.findByIdAndUpdate(interviewId, {
       status: 'in-progress',
-      startedAt: new Date(),
     });
 
     // Initialize service
     const service = getService();
 
-    // Start processing job description in background (don't await)
-    const processingPromise = service.processJobDescription(interview.description);
-
-    // Initialize interview context
-    const context: InterviewContext = {
+    const base = {
       jobTitle: interview.title,
       jobDescription: interview.description,
       company: interview.company,
       interviewId: interviewId,
-      stage: 'greeting',
-      questionsAsked: 0,
-      maxQuestions: 3,
-      conversationHistory: [],
-      keyRequirements: [],
-      technicalSkills: [],
-      softSkills: [],
-      interviewQuestions: [],
-      currentQuestion: null
+      template: interview.template,
+      resume: interview.resume,
+      persona: interviewerPersona(interview.persona),
+      // The pool is larger than the interview, so the asked questions are kept to the mix
+      categoryQuotas: questionSelector.categoryQuotas(interview.settings?.question_count ?? 3, {
+        categoryMix: interview.settings?.category_mix
+      })
     };
 
+    // Pick up where the candidate left off if this session was checkpointed
+    const checkpoint = interview.status === 'in-progress'
+      ? await checkpoints.load(interviewId)
+      : null;
+
+    const context: InterviewContext = checkpoint
+      ? await checkpoints.restore(checkpoint, base)
+      : await createContext(interview, base);
+    const restored = Boolean(checkpoint);
+
+    // Start processing job description in background (don't await)
+    const processingPromise = restored
+      ? Promise.resolve({
+          keyRequirements: context.keyRequirements,
+          technicalSkills: context.technicalSkills,
+          softSkills: context.softSkills
+        })
+      : service.processJobDescription(interview.description);
+
+    if (restored) {
+      logger.info(`[Interview] Restored checkpoint at stage ${context.stage} (${context.questionsAsked}/${context.maxQuestions})`);
+      socket.emit('session_restored', {
+        stage: context.stage,
+        questionsAsked: context.questionsAsked,
+        maxQuestions: context.maxQuestions,
+        paused: Boolean(context.pausedAt)
+      });
+    }
+
     // Store context in socket data
     socket.data.interviewContext = context;
 
+    // Checkpoint after every turn so a dropped connection can resume
+    // Only while this socket holds the lease, so an evicted session cannot overwrite the new holder's state
+    const owner = { leaseKey: registry.leaseKey(interviewId, userId), socketId: socket.id };
+    const checkpointTurn = async () => {
+      if (context.stage === 'completed') {
+        await checkpoints.clear(interviewId, owner);
+      } else {
+        await checkpoints.save(context, owner);
+      }
+    };
+    flushCheckpoint = checkpointTurn;
+
     // Track if processing to prevent duplicate requests
     let isProcessing = false;
 
@@ -95,6 +188,13 @@ export async function handleInterview(
       logger.info('[Interview] Received start_interview event');
 
       try {
+        // A restored session resumes instead of greeting again
+        if (restored && context.stage !== 'greeting') {
+          await service.resumeInterview(socket, context);
+          await checkpointTurn();
+          return;
+        }
+
         // Wait for background job description processing to complete
         const processed = await processingPromise;
         context.keyRequirements = processed.keyRequirements;
@@ -103,8 +203,13 @@ export async function handleInterview(
 
         logger.info('[Interview] Job description processed, sending greeting');
 
+        // The target duration counts from the greeting
+        context.startedAt = new Date();
+        await Interview.findByIdAndUpdate(interviewId, { startedAt: context.startedAt });
+
         // Send greeting
         await service.startInterview(socket, context);
+        await checkpointTurn();
 
       } catch (error) {
         logger.error('[Interview] Error starting interview:', error);
@@ -115,7 +220,9 @@ export async function handleInterview(
     });
 
     // Handle user_response event
-    socket.on('user_response', async (data: { text: string }) => {
+    socket.on('user_response', async (data: { text: string; timing?: ClientSpeechTiming }) => {
+      const receivedAt = Date.now();
+
       if (isProcessing) {
         logger.warn('[Interview] Already processing user response');
         return;
@@ -125,7 +232,8 @@ export async function handleInterview(
       logger.info(`[Interview] User response: "${data.text.substring(0, 50)}..."`);
 
       try {
-        await service.handleUserResponse(socket, data.text, context);
+        await service.handleUserResponse(socket, data.text, context, toServerTiming(data.timing, receivedAt));
+        await checkpointTurn();
       } catch (error) {
         logger.error('[Interview] Error handling user response:', error);
         socket.emit('error', { message: 'Failed to process response' });
@@ -134,9 +242,72 @@ export async function handleInterview(
       }
     });
 
+    // Run or submit code for the open coding question
+    socket.on('run_code', async (data: { code: string; language: CodeLanguage; submit?: boolean }) => {
+      if (typeof data?.code !== 'string' || !CODE_LANGUAGES.includes(data.language)) {
+        socket.emit('code_run_error', { message: 'Invalid code run request' });
+        return;
+      }
+
+      if (isProcessing) {
+        logger.warn('[Interview] Already processing, rejecting code run');
+        socket.emit('code_run_error', { message: 'The interviewer is still responding, try again in a moment' });
+        return;
+      }
+
+      isProcessing = true;
+      logger.info(`[Interview] ${data.submit ? 'Submitting' : 'Running'} ${data.language} code (${data.code.length} chars)`);
+
+      try {
+        await service.runCode(socket, context, data.code, data.language, Boolean(data.submit));
+        await checkpointTurn();
+      } catch (error) {
+        logger.error('[Interview] Error running code:', error);
+        socket.emit('code_run_error', { message: 'Failed to run code' });
+      } finally {
+        isProcessing = false;
+      }
+    });
+
   } catch (error) {
     logger.error('[Interview] Error in interview handler:', error);
-    activeSessions.delete(sessionKey);
+    releaseSession();
     socket.emit('error', { message: 'Server error' });
   }
 }
+
+/**
+ * Build a fresh context for an interview that has no checkpoint
+ */
+async function createContext(
+  interview: IInterview,
+  base: Pick<InterviewContext, 'jobTitle' | 'jobDescription' | 'company' | 'interviewId' | 'template' | 'resume' | 'persona' | 'categoryQuotas'>
+): Promise<InterviewContext> {
+  // Load the candidate pool chosen at creation time; question_count of them are asked
+  const questionPool = await questionSelector.loadSelectedQuestions(interview.selectedQuestions);
+  logger.info(`[Interview] Loaded ${questionPool.length} candidate questions to ask ${interview.settings?.question_count ?? 3}`);
+
+  return {
+    ...base,
+    stage: 'greeting',
+    questionsAsked: 0,
+    maxQuestions: Math.min(interview.settings?.question_count ?? 3, questionPool.length),
+    targetDurationSeconds: interview.settings?.target_duration_minutes
+      ? interview.settings.target_duration_minutes * 60
+      : undefined,
+    startedAt: new Date(),
+    pausedAt: null,
+    pausedSeconds: 0,
+    conversationHistory: [],
+    keyRequirements: [],
+    technicalSkills: [],
+    softSkills: [],
+    questionPool,
+    askedQuestionIds: [],
+    interviewQuestions: [],
+    currentQuestion: null,
+    currentFollowUp: null,
+    currentDesign: null,
+    currentCoding: null
+  };
+}
@@ -0,0 +1,71 @@
+import { z } from 'zod';
+
+/**
+ * Request-body shape of a databank question, mirroring IQuestion
+ */
+export const questionInputSchema = z.object({
+  question_id: z.number().int().positive(),
+  question_title: z.string().trim().min(1),
+  question_text: z.string().trim().min(1),
+  question_tags: z.array(z.string().trim().min(1)).default([]),
+
+  difficulty: z.enum(['easy', 'medium', 'hard']).default('medium'),
+  category: z.enum(['technical', 'behavioral', 'system-design', 'coding']).default('technical'),
+  estimated_time: z.number().int().positive().default(120),
+
+  expected_key_points: z.array(z.string().min(1)).optional(),
+  evaluation_criteria: z.array(z.object({
+    criterion: z.string().min(1),
+    weight: z.number().positive(),
+  })).optional(),
+
+  follow_up_questions: z.array(z.object({
+    trigger_condition: z.string().min(1),
+    question_text: z.string().min(1),
+  })).optional(),
+
+  entry_point: z.string().regex(/^[A-Za-z_$][\w$]*$/, 'Must be a function name').optional(),
+  starter_code: z.object({
+    javascript: z.string(),
+    typescript: z.string(),
+    python: z.string(),
+  }).partial().optional(),
+  test_cases: z.array(z.object({
+    name: z.string().optional(),
+    args: z.array(z.unknown()),
+    expected: z.unknown(),
+    hidden: z.boolean().default(false),
+  })).optional(),
+
+  rank_key: z.array(z.number()).optional(),
+  view_count: z.number().optional(),
+  score: z.number().optional(),
+
+  prerequisites: z.array(z.number().int().positive()).optional(),
+
+  modification_hints: z.object({
+    can_simplify: z.boolean().default(true),
+    can_add_context: z.boolean().default(true),
+    context_examples: z.array(z.string()).default([]),
+  }).optional(),
+});
+
+export type QuestionInput = z.infer<typeof questionInputSchema>;
+
+// The same fields without top-level defaults, so an import updating an existing question
+// only writes what the upload sets
+export const questionPatchSchema = questionInputSchema.extend({
+  question_tags: questionInputSchema.shape.question_tags.removeDefault().optional(),
+  difficulty: questionInputSchema.shape.difficulty.removeDefault().optional(),
+  category: questionInputSchema.shape.category.removeDefault().optional(),
+  estimated_time: questionInputSchema.shape.estimated_time.removeDefault().optional(),
+});
+
+export type QuestionPatch = z.infer<typeof questionPatchSchema>;
+
+// question_id is assigned on create when omitted and can never change
+export const createQuestionSchema = questionInputSchema.extend({
+  question_id: questionInputSchema.shape.question_id.optional(),
+});
+
+export const updateQuestionSchema = questionInputSchema.omit({ question_id: true }).partial();
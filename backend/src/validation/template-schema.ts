@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { PERSONA_IDS } from '../services/interviewer-personas.js';
+
+const categoryWeight = z.number().min(0).max(100).optional();
+
+const stageInstruction = z.string().trim().min(1).max(1000).optional();
+
+/**
+ * Request-body shape of a user-saved interview template, mirroring InterviewTemplateDefinition
+ */
+export const templateInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).default(''),
+
+  job_title: z.string().trim().min(1).optional(),
+  job_description: z.string().trim().min(1).optional(),
+
+  settings: z.object({
+    question_count: z.number().int().min(1).max(20),
+    target_duration_minutes: z.number().int().min(5).max(120).optional(),
+    category_mix: z.object({
+      technical: categoryWeight,
+      behavioral: categoryWeight,
+      'system-design': categoryWeight,
+      coding: categoryWeight,
+    }).optional()
+      .refine((mix) => !mix || Object.values(mix).some((w) => (w || 0) > 0), {
+        message: 'category_mix needs at least one category with a positive weight',
+      }),
+    difficulty_band: z.enum(['junior', 'mid', 'senior']).default('mid'),
+  }),
+
+  persona_id: z.enum(PERSONA_IDS).optional(),
+  persona: z.string().trim().min(1).max(1000).optional(),
+  rubric: z.array(z.object({
+    criterion: z.string().trim().min(1),
+    weight: z.number().positive(),
+  })).optional(),
+  stage_script: z.object({
+    greeting: stageInstruction,
+    small_talk: stageInstruction,
+    ready_check: stageInstruction,
+    interview: stageInstruction,
+    closing: stageInstruction,
+  }).optional(),
+});
+
+export type TemplateInput = z.infer<typeof templateInputSchema>;
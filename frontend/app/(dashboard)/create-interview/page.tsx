@@ -1,9 +1,68 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useAuth } from '@clerk/nextjs';
 import { useRouter } from 'next/navigation';
-import { Loader2 } from 'lucide-react';
+import { FileText, Loader2, Save, Trash2, Upload } from 'lucide-react';
+
+type QuestionCategory = 'technical' | 'behavioral' | 'system-design' | 'coding';
+type DifficultyBand = 'junior' | 'mid' | 'senior';
+
+const CATEGORY_LABELS: Record<QuestionCategory, string> = {
+  technical: 'Technical',
+  behavioral: 'Behavioral',
+  'system-design': 'System Design',
+  coding: 'Coding',
+};
+
+interface InterviewTemplate {
+  id: string;
+  preset: boolean;
+  name: string;
+  description: string;
+  job_title?: string;
+  job_description?: string;
+  settings: {
+    question_count: number;
+    target_duration_minutes?: number;
+    category_mix?: Partial<Record<QuestionCategory, number>>;
+    difficulty_band: DifficultyBand;
+  };
+  persona_id?: string;
+  persona?: string;
+  rubric?: Array<{ criterion: string; weight: number }>;
+  stage_script?: Record<string, string>;
+}
+
+interface InterviewerPersona {
+  id: string;
+  name: string;
+  description: string;
+}
+
+interface Resume {
+  file_name?: string;
+  uploaded_at: string;
+  skills: string[];
+  experience: Array<{ title: string; company?: string }>;
+}
+
+// Browsers often leave the type empty for .md and some .docx files
+const RESUME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  txt: 'text/plain',
+  md: 'text/markdown',
+};
+
+// Matches the backend's upload limit
+const MAX_RESUME_BYTES = 5 * 1024 * 1024;
+
+// Matches the backend's per-question estimate when turning minutes into a count
+const AVERAGE_QUESTION_MINUTES = 3;
+
+const inputClassName =
+  'w-full rounded-md border border-white/10 bg-[#0b0b0b] px-3 py-2 text-white placeholder-gray-500 outline-none ring-emerald-500/20 focus:ring-2';
 
 export default function CreateInterviewPage() {
   const { getToken } = useAuth();
@@ -14,6 +73,269 @@ export default function CreateInterviewPage() {
     company: '',
     jobDescription: '',
   });
+  const [lengthMode, setLengthMode] = useState<'count' | 'duration'>('count');
+  const [questionCount, setQuestionCount] = useState(5);
+  const [durationMinutes, setDurationMinutes] = useState(30);
+  const [difficultyBand, setDifficultyBand] = useState<DifficultyBand>('mid');
+  const [modality, setModality] = useState<'voice' | 'chat'>('voice');
+  const [personas, setPersonas] = useState<InterviewerPersona[]>([]);
+  const [personaId, setPersonaId] = useState('');
+  const [categoryMix, setCategoryMix] = useState<Record<QuestionCategory, number>>({
+    technical: 70,
+    behavioral: 30,
+    'system-design': 0,
+    coding: 0,
+  });
+  const [templates, setTemplates] = useState<InterviewTemplate[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [templateName, setTemplateName] = useState('');
+  const [savingTemplate, setSavingTemplate] = useState(false);
+
+  const [resume, setResume] = useState<Resume | null>(null);
+  const [useResume, setUseResume] = useState(true);
+  const [uploadingResume, setUploadingResume] = useState(false);
+
+  const selectedTemplate = templates.find((t) => t.id === templateId);
+  const selectedPersona = personas.find((p) => p.id === personaId);
+
+  useEffect(() => {
+    fetchTemplates();
+    fetchProfile();
+    fetchPersonas();
+  }, []);
+
+  async function fetchPersonas() {
+    try {
+      const token = await getToken();
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/interviews/personas`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+      const data = await response.json();
+      setPersonas(data.personas || []);
+      setPersonaId((current) => current || data.default || '');
+    } catch (error) {
+      console.error('Failed to fetch personas:', error);
+    }
+  }
+
+  async function fetchProfile() {
+    try {
+      const token = await getToken();
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/profile`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+      const data = await response.json();
+      setResume(data.profile?.resume ?? null);
+    } catch (error) {
+      console.error('Failed to fetch profile:', error);
+    }
+  }
+
+  async function handleResumeUpload(file: File) {
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    const contentType = RESUME_TYPES[extension] ?? file.type;
+    if (!Object.values(RESUME_TYPES).includes(contentType)) {
+      alert('Upload a PDF, DOCX or plain-text resume');
+      return;
+    }
+    if (file.size > MAX_RESUME_BYTES) {
+      alert('Resumes can be at most 5 MB');
+      return;
+    }
+
+    setUploadingResume(true);
+    try {
+      const token = await getToken();
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/profile/resume?fileName=${encodeURIComponent(file.name)}`,
+        {
+          method: 'PUT',
+          headers: {
+            'Content-Type': contentType,
+            Authorization: `Bearer ${token}`,
+          },
+          body: file,
+        }
+      );
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setResume(data.profile.resume);
+        setUseResume(true);
+      } else {
+        alert(data.message || 'Failed to upload resume');
+      }
+    } catch (error) {
+      console.error('Error uploading resume:', error);
+      alert('Failed to upload resume');
+    } finally {
+      setUploadingResume(false);
+    }
+  }
+
+  async function handleResumeRemove() {
+    try {
+      const token = await getToken();
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/profile/resume`,
+        {
+          method: 'DELETE',
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+      if (response.ok) {
+        setResume(null);
+      }
+    } catch (error) {
+      console.error('Error removing resume:', error);
+    }
+  }
+
+  async function fetchTemplates() {
+    try {
+      const token = await getToken();
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/templates`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+      const data = await response.json();
+      setTemplates(data.templates || []);
+    } catch (error) {
+      console.error('Failed to fetch templates:', error);
+    }
+  }
+
+  function applyTemplate(id: string) {
+    setTemplateId(id);
+    const template = templates.find((t) => t.id === id);
+    if (!template) return;
+
+    const { settings } = template;
+    if (settings.target_duration_minutes) {
+      setLengthMode('duration');
+      setDurationMinutes(settings.target_duration_minutes);
+    } else {
+      setLengthMode('count');
+    }
+    setQuestionCount(settings.question_count);
+    setDifficultyBand(settings.difficulty_band);
+    if (template.persona_id) {
+      setPersonaId(template.persona_id);
+    }
+    setCategoryMix({
+      technical: settings.category_mix?.technical ?? 0,
+      behavioral: settings.category_mix?.behavioral ?? 0,
+      'system-design': settings.category_mix?.['system-design'] ?? 0,
+      coding: settings.category_mix?.coding ?? 0,
+    });
+
+    // Only fill job fields the user has not typed yet
+    setFormData((current) => ({
+      ...current,
+      jobTitle: current.jobTitle || template.job_title || '',
+      jobDescription: current.jobDescription || template.job_description || '',
+    }));
+  }
+
+  async function handleSaveTemplate() {
+    if (!templateName.trim()) return;
+    setSavingTemplate(true);
+
+    try {
+      const token = await getToken();
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/templates`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({
+            name: templateName.trim(),
+            description: selectedTemplate ? `Based on ${selectedTemplate.name}` : '',
+            job_title: formData.jobTitle || undefined,
+            job_description: formData.jobDescription || undefined,
+            settings: {
+              question_count:
+                lengthMode === 'count'
+                  ? questionCount
+                  : Math.min(20, Math.max(1, Math.round(durationMinutes / AVERAGE_QUESTION_MINUTES))),
+              target_duration_minutes: lengthMode === 'duration' ? durationMinutes : undefined,
+              category_mix: categoryMix,
+              difficulty_band: difficultyBand,
+            },
+            persona_id: personaId || undefined,
+            // Persona, rubric and stage script carry over from the template this started from
+            persona: selectedTemplate?.persona,
+            rubric: selectedTemplate?.rubric,
+            stage_script: selectedTemplate?.stage_script,
+          }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setTemplates((current) => [...current, data.template]);
+        setTemplateId(data.template.id);
+        setTemplateName('');
+      } else {
+        alert(data.message || 'Failed to save template');
+      }
+    } catch (error) {
+      console.error('Error saving template:', error);
+      alert('Failed to save template');
+    } finally {
+      setSavingTemplate(false);
+    }
+  }
+
+  async function handleDeleteTemplate() {
+    if (!selectedTemplate || selectedTemplate.preset) return;
+    const confirmed = window.confirm(`Delete the template "${selectedTemplate.name}"?`);
+    if (!confirmed) return;
+
+    try {
+      const token = await getToken();
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/templates/${selectedTemplate.id}`,
+        {
+          method: 'DELETE',
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      if (response.ok) {
+        setTemplates((current) => current.filter((t) => t.id !== selectedTemplate.id));
+        setTemplateId('');
+      } else {
+        alert('Failed to delete template');
+      }
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      alert('Failed to delete template');
+    }
+  }
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
@@ -29,7 +351,16 @@ export default function CreateInterviewPage() {
             'Content-Type': 'application/json',
             Authorization: `Bearer ${token}`,
           },
-          body: JSON.stringify(formData),
+          body: JSON.stringify({
+            ...formData,
+            ...(templateId && { templateId }),
+            useResume: Boolean(resume) && useResume,
+            modality,
+            ...(personaId && { persona: personaId }),
+            difficultyBand,
+            categoryMix,
+            ...(lengthMode === 'count' ? { questionCount } : { durationMinutes }),
+          }),
         }
       );
 
@@ -53,6 +384,65 @@ export default function CreateInterviewPage() {
       <h1 className="text-3xl font-bold mb-8 text-white">Create New Interview</h1>
 
       <form onSubmit={handleSubmit} className="space-y-6">
+        <div>
+          <label
+            htmlFor="template"
+            className="block text-sm font-medium mb-2 text-gray-300"
+          >
+            Start from a template
+          </label>
+          <div className="flex gap-2">
+            <select
+              id="template"
+              value={templateId}
+              onChange={(e) => applyTemplate(e.target.value)}
+              className={inputClassName}
+            >
+              <option value="">Blank interview</option>
+              <optgroup label="Presets">
+                {templates
+                  .filter((t) => t.preset)
+                  .map((t) => (
+                    <option key={t.id} value={t.id}>
+                      {t.name}
+                    </option>
+                  ))}
+              </optgroup>
+              {templates.some((t) => !t.preset) && (
+                <optgroup label="My templates">
+                  {templates
+                    .filter((t) => !t.preset)
+                    .map((t) => (
+                      <option key={t.id} value={t.id}>
+                        {t.name}
+                      </option>
+                    ))}
+                </optgroup>
+              )}
+            </select>
+            {selectedTemplate && !selectedTemplate.preset && (
+              <button
+                type="button"
+                onClick={handleDeleteTemplate}
+                className="rounded-md border border-white/10 px-3 text-gray-400 hover:bg-white/5 hover:text-red-400"
+                title="Delete template"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+          {selectedTemplate && (
+            <div className="mt-2 space-y-1 text-sm text-gray-400">
+              {selectedTemplate.description && <p>{selectedTemplate.description}</p>}
+              {selectedTemplate.persona && (
+                <p>
+                  <span className="text-gray-300">Interviewer:</span> {selectedTemplate.persona}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
         <div>
           <label
             htmlFor="jobTitle"
@@ -117,6 +507,229 @@ export default function CreateInterviewPage() {
           </p>
         </div>
 
+        <div className="rounded-md border border-white/10 p-4">
+          <p className="text-sm font-medium mb-2 text-gray-300">Resume</p>
+          {resume ? (
+            <div className="space-y-3">
+              <div className="flex items-start justify-between gap-3">
+                <div className="flex items-start gap-2 text-sm text-gray-400">
+                  <FileText className="w-4 h-4 mt-0.5 text-[#3ecf8e]" />
+                  <div>
+                    <p className="text-white">{resume.file_name || 'Resume'}</p>
+                    <p>
+                      {resume.experience.length} roles
+                      {resume.skills.length > 0 && ` · ${resume.skills.slice(0, 8).join(', ')}`}
+                    </p>
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={handleResumeRemove}
+                  className="text-sm text-gray-500 hover:text-red-400"
+                >
+                  Remove
+                </button>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={useResume}
+                  onChange={(e) => setUseResume(e.target.checked)}
+                  className="accent-[#3ecf8e]"
+                />
+                Ask about my experience in this interview
+              </label>
+            </div>
+          ) : (
+            <p className="mb-3 text-sm text-gray-400">
+              Upload a resume (PDF, DOCX or text) so the interviewer can ask about your experience.
+              It is parsed on our server and not shared.
+            </p>
+          )}
+          <label className="mt-3 inline-flex cursor-pointer items-center gap-2 rounded-md border border-white/10 px-4 py-2 text-sm text-gray-300 hover:bg-white/5">
+            {uploadingResume ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            {resume ? 'Replace resume' : 'Upload resume'}
+            <input
+              type="file"
+              accept=".pdf,.docx,.txt,.md"
+              className="hidden"
+              disabled={uploadingResume}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleResumeUpload(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+
+        <fieldset className="space-y-4 rounded-md border border-white/10 p-4">
+          <legend className="px-2 text-sm font-medium text-gray-300">
+            Interview Settings
+          </legend>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium mb-2 text-gray-300">
+                Length
+              </label>
+              <div className="flex gap-2">
+                <select
+                  value={lengthMode}
+                  onChange={(e) =>
+                    setLengthMode(e.target.value as 'count' | 'duration')
+                  }
+                  className={inputClassName}
+                >
+                  <option value="count">Questions</option>
+                  <option value="duration">Minutes</option>
+                </select>
+                {lengthMode === 'count' ? (
+                  <input
+                    type="number"
+                    min={1}
+                    max={20}
+                    value={questionCount}
+                    onChange={(e) => setQuestionCount(Number(e.target.value))}
+                    className={inputClassName}
+                  />
+                ) : (
+                  <input
+                    type="number"
+                    min={5}
+                    max={120}
+                    step={5}
+                    value={durationMinutes}
+                    onChange={(e) => setDurationMinutes(Number(e.target.value))}
+                    className={inputClassName}
+                  />
+                )}
+              </div>
+            </div>
+
+            <div>
+              <label
+                htmlFor="difficultyBand"
+                className="block text-sm font-medium mb-2 text-gray-300"
+              >
+                Seniority
+              </label>
+              <select
+                id="difficultyBand"
+                value={difficultyBand}
+                onChange={(e) =>
+                  setDifficultyBand(e.target.value as DifficultyBand)
+                }
+                className={inputClassName}
+              >
+                <option value="junior">Junior (easier questions)</option>
+                <option value="mid">Mid-level</option>
+                <option value="senior">Senior (harder questions)</option>
+              </select>
+            </div>
+
+            <div>
+              <label
+                htmlFor="modality"
+                className="block text-sm font-medium mb-2 text-gray-300"
+              >
+                Mode
+              </label>
+              <select
+                id="modality"
+                value={modality}
+                onChange={(e) =>
+                  setModality(e.target.value as 'voice' | 'chat')
+                }
+                className={inputClassName}
+              >
+                <option value="voice">Voice (microphone)</option>
+                <option value="chat">Chat (type your answers)</option>
+              </select>
+            </div>
+
+            <div>
+              <label
+                htmlFor="persona"
+                className="block text-sm font-medium mb-2 text-gray-300"
+              >
+                Interviewer
+              </label>
+              <select
+                id="persona"
+                value={personaId}
+                onChange={(e) => setPersonaId(e.target.value)}
+                className={inputClassName}
+              >
+                {personas.map((persona) => (
+                  <option key={persona.id} value={persona.id}>
+                    {persona.name}
+                  </option>
+                ))}
+              </select>
+              {selectedPersona && (
+                <p className="mt-1 text-xs text-gray-500">
+                  {selectedPersona.description}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium mb-2 text-gray-300">
+              Question Mix (relative weight)
+            </p>
+            <div className="grid gap-3 sm:grid-cols-2">
+              {(Object.keys(CATEGORY_LABELS) as QuestionCategory[]).map(
+                (category) => (
+                  <label
+                    key={category}
+                    className="flex items-center justify-between gap-3 text-sm text-gray-400"
+                  >
+                    <span className="w-28">{CATEGORY_LABELS[category]}</span>
+                    <input
+                      type="range"
+                      min={0}
+                      max={100}
+                      step={10}
+                      value={categoryMix[category]}
+                      onChange={(e) =>
+                        setCategoryMix({
+                          ...categoryMix,
+                          [category]: Number(e.target.value),
+                        })
+                      }
+                      className="flex-1 accent-[#3ecf8e]"
+                    />
+                    <span className="w-8 text-right text-white">
+                      {categoryMix[category]}
+                    </span>
+                  </label>
+                )
+              )}
+            </div>
+          </div>
+
+          <div className="flex gap-2 border-t border-white/10 pt-4">
+            <input
+              type="text"
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              placeholder="Template name"
+              className={inputClassName}
+            />
+            <button
+              type="button"
+              onClick={handleSaveTemplate}
+              disabled={savingTemplate || !templateName.trim()}
+              className="flex shrink-0 items-center gap-2 rounded-md border border-white/10 px-4 text-sm text-gray-300 hover:bg-white/5 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {savingTemplate ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              Save as template
+            </button>
+          </div>
+        </fieldset>
+
         <div className="flex gap-4">
           <button
             type="submit"
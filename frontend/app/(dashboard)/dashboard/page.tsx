@@ -12,12 +12,14 @@ interface Interview {
   company: string;
   description: string;
   status: 'scheduled' | 'in-progress' | 'completed' | 'abandoned';
+  modality?: 'voice' | 'chat';
   createdAt: string;
   feedback?: {
     overall_score: number;
   };
   metrics?: {
     questions_asked: number;
+    total_duration?: number;
     overall_performance_score: number;
   };
 }
@@ -162,6 +164,11 @@ export default function DashboardPage() {
                   </p>
                 </div>
                 <div className="flex items-center gap-3">
+                  {interview.modality === 'chat' && (
+                    <span className="px-2 py-0.5 rounded border border-white/10 text-xs text-gray-400">
+                      Chat
+                    </span>
+                  )}
                   <div className="flex items-center gap-2">
                     {getStatusIcon(interview.status)}
                     <span
@@ -198,19 +205,22 @@ export default function DashboardPage() {
                   {interview.metrics && (
                     <span className="ml-4">
                       {interview.metrics.questions_asked} questions •{' '}
+                      {interview.metrics.total_duration
+                        ? `${Math.round(interview.metrics.total_duration / 60)} min • `
+                        : ''}
                       {interview.metrics.overall_performance_score}% score
                     </span>
                   )}
                 </div>
                 
                 <div className="flex gap-2">
-                  {/* Show View Feedback button if feedback exists and status is completed */}
-                  {interview.status === 'completed' && interview.feedback && (
+                  {/* Show View Feedback button if feedback exists (abandoned interviews may have partial feedback) */}
+                  {(interview.status === 'completed' || interview.status === 'abandoned') && interview.feedback && (
                     <Link
                       href={`/feedback/${interview._id}`}
                       className="px-4 py-2 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-medium text-sm transition-colors"
                     >
-                      View Feedback
+                      {interview.status === 'abandoned' ? 'Partial Feedback' : 'View Feedback'}
                     </Link>
                   )}
 
@@ -223,7 +233,9 @@ export default function DashboardPage() {
                         <Play className="w-4 h-4" />
                         {interview.status === 'in-progress'
                           ? 'Continue'
-                          : 'Start'}
+                          : interview.status === 'abandoned'
+                            ? 'Restart'
+                            : 'Start'}
                       </>
                   </Link>
                   )}
@@ -3,7 +3,7 @@
 import { useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { useAuth } from '@clerk/nextjs';
-import { ArrowLeft, TrendingUp, TrendingDown, Lightbulb, MessageSquare, Brain, Award } from 'lucide-react';
+import { ArrowLeft, TrendingUp, TrendingDown, Lightbulb, MessageSquare, Brain, Award, Clock, ListChecks } from 'lucide-react';
 
 interface Feedback {
   overall_score: number;
@@ -25,9 +25,82 @@ interface Feedback {
   generated_at: string;
 }
 
+interface Metrics {
+  total_duration: number;
+  questions_asked: number;
+  questions_skipped: number;
+  average_response_time: number;
+  candidate_talk_time?: number;
+  talk_time_ratio?: number;
+}
+
+interface QuestionScore {
+  question_id: number;
+  question_text: string;
+  skipped: boolean;
+  resume_grounded: boolean;
+  question_score?: number;
+  criterion_scores: Array<{
+    criterion: string;
+    weight: number;
+    score: number;
+    rationale?: string;
+  }>;
+  star?: StarAnalysis;
+  design_phases?: DesignPhaseScore[];
+  code?: CodeSubmission;
+}
+
+interface CodeSubmission {
+  language: string;
+  source: string;
+  submitted: boolean;
+  passed: number;
+  total: number;
+  error?: string;
+  outcomes: Array<{
+    index: number;
+    name?: string;
+    hidden: boolean;
+    passed: boolean;
+    expected?: unknown;
+    actual?: unknown;
+    error?: string;
+  }>;
+}
+
+interface DesignPhaseScore {
+  phase: string;
+  label: string;
+  score?: number; // Unset when the phase was reached but could not be scored
+  rationale?: string;
+  budget_seconds?: number;
+  seconds_used?: number;
+}
+
+type StarComponent = 'situation' | 'task' | 'action' | 'result';
+
+interface StarAnalysis {
+  segments: Array<{
+    component: StarComponent;
+    present: boolean;
+    excerpt?: string;
+  }>;
+  missing: StarComponent[];
+  completeness: number;
+}
+
+const STAR_LABELS: Record<StarComponent, string> = {
+  situation: 'Situation',
+  task: 'Task',
+  action: 'Action',
+  result: 'Result',
+};
+
 interface InterviewDetails {
   title: string;
   company: string;
+  status: 'scheduled' | 'in-progress' | 'completed' | 'abandoned';
   createdAt: string;
 }
 
@@ -39,6 +112,8 @@ export default function FeedbackPage() {
 
   const [feedback, setFeedback] = useState<Feedback | null>(null);
   const [interviewDetails, setInterviewDetails] = useState<InterviewDetails | null>(null);
+  const [metrics, setMetrics] = useState<Metrics | null>(null);
+  const [questions, setQuestions] = useState<QuestionScore[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -64,6 +139,8 @@ export default function FeedbackPage() {
       const data = await response.json();
       setFeedback(data.feedback);
       setInterviewDetails(data.interviewDetails);
+      setMetrics(data.metrics ?? null);
+      setQuestions(data.questions ?? []);
     } catch (error) {
       console.error('Failed to fetch feedback:', error);
     } finally {
@@ -100,6 +177,12 @@ export default function FeedbackPage() {
     return 'text-red-400';
   };
 
+  const formatSeconds = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const rest = Math.round(seconds % 60);
+    return minutes > 0 ? `${minutes}m ${rest}s` : `${rest}s`;
+  };
+
   const getScoreBgColor = (score: number) => {
     if (score >= 80) return 'bg-green-500/10 border-green-500/30';
     if (score >= 60) return 'bg-yellow-500/10 border-yellow-500/30';
@@ -122,6 +205,11 @@ export default function FeedbackPage() {
         <p className="text-gray-400">
           {interviewDetails.title} at {interviewDetails.company}
         </p>
+        {interviewDetails.status === 'abandoned' && (
+          <p className="mt-3 inline-block rounded-lg border border-red-500/30 bg-red-500/10 px-3 py-1 text-sm text-red-300">
+            Partial feedback - this interview was abandoned before it finished
+          </p>
+        )}
       </div>
 
       {/* Overall Score */}
@@ -132,7 +220,7 @@ export default function FeedbackPage() {
               <Award className="w-8 h-8 text-[#3ecf8e]" />
               <h2 className="text-2xl font-bold text-white">Overall Performance</h2>
             </div>
-            <p className="text-gray-300">Your interview performance score</p>
+            <p className="text-gray-300">Average of your weighted rubric scores per question</p>
           </div>
           <div className={`text-6xl font-bold ${getScoreColor(feedback.overall_score)}`}>
             {feedback.overall_score}
@@ -141,6 +229,44 @@ export default function FeedbackPage() {
         </div>
       </div>
 
+      {/* Session Metrics */}
+      {metrics && (
+        <div className="bg-[#0e0e0e] border border-white/10 rounded-2xl p-6 mb-6">
+          <div className="flex items-center gap-3 mb-4">
+            <Clock className="w-6 h-6 text-[#3ecf8e]" />
+            <h2 className="text-xl font-bold text-white">Session Metrics</h2>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <p className="text-sm text-gray-400">Duration</p>
+              <p className="text-lg font-semibold text-white">{formatSeconds(metrics.total_duration)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-400">Questions</p>
+              <p className="text-lg font-semibold text-white">
+                {metrics.questions_asked}
+                {metrics.questions_skipped > 0 && (
+                  <span className="text-sm text-gray-400"> ({metrics.questions_skipped} skipped)</span>
+                )}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-400">Avg. Response Time</p>
+              <p className="text-lg font-semibold text-white">{formatSeconds(metrics.average_response_time)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-400">Your Talk Time</p>
+              <p className="text-lg font-semibold text-white">
+                {formatSeconds(metrics.candidate_talk_time ?? 0)}
+                {metrics.talk_time_ratio !== undefined && (
+                  <span className="text-sm text-gray-400"> ({Math.round(metrics.talk_time_ratio * 100)}%)</span>
+                )}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Strengths */}
       <div className="bg-[#0e0e0e] border border-white/10 rounded-2xl p-6 mb-6">
         <div className="flex items-center gap-3 mb-4">
@@ -189,6 +315,116 @@ export default function FeedbackPage() {
         </ul>
       </div>
 
+      {/* Per-question Rubric Scores */}
+      {questions.length > 0 && (
+        <div className="bg-[#0e0e0e] border border-white/10 rounded-2xl p-6 mb-6">
+          <div className="flex items-center gap-3 mb-4">
+            <ListChecks className="w-6 h-6 text-[#3ecf8e]" />
+            <h2 className="text-xl font-bold text-white">Score Breakdown</h2>
+          </div>
+          <div className="space-y-5">
+            {questions.map((question, idx) => (
+              <div key={`${question.question_id}-${idx}`}>
+                <div className="flex items-start justify-between gap-4 mb-2">
+                  <p className="text-gray-200">
+                    <span className="text-gray-500">Q{idx + 1}.</span> {question.question_text}
+                    {question.resume_grounded && (
+                      <span className="ml-2 rounded border border-[#3ecf8e]/30 px-1.5 py-0.5 text-xs text-[#3ecf8e]">
+                        From your resume
+                      </span>
+                    )}
+                  </p>
+                  {question.skipped ? (
+                    <span className="text-sm text-gray-500 whitespace-nowrap">Skipped (0)</span>
+                  ) : question.question_score !== undefined ? (
+                    <span className={`font-semibold whitespace-nowrap ${getScoreColor(question.question_score)}`}>
+                      {question.question_score}/100
+                    </span>
+                  ) : (
+                    <span className="text-sm text-gray-500 whitespace-nowrap">Unscored</span>
+                  )}
+                </div>
+                {!question.skipped && question.design_phases && (
+                  <ul className="space-y-1 pl-6">
+                    {question.design_phases.map((phase) => (
+                      <li key={phase.phase} className="text-sm text-gray-400">
+                        <span className="text-gray-300">{phase.label}</span>:{' '}
+                        {phase.score !== undefined
+                          ? <span className={getScoreColor(phase.score)}>{phase.score}</span>
+                          : <span className="text-gray-500">unscored</span>}
+                        {phase.seconds_used !== undefined && phase.budget_seconds !== undefined && (
+                          <span className={phase.seconds_used > phase.budget_seconds ? 'text-yellow-400' : 'text-gray-500'}>
+                            {' '}({formatSeconds(phase.seconds_used)} of {formatSeconds(phase.budget_seconds)})
+                          </span>
+                        )}
+                        {phase.rationale && <span> - {phase.rationale}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {!question.skipped && !question.design_phases && question.criterion_scores.length > 0 && (
+                  <ul className="space-y-1 pl-6">
+                    {question.criterion_scores.map((criterion) => (
+                      <li key={criterion.criterion} className="text-sm text-gray-400">
+                        <span className="text-gray-300">{criterion.criterion}</span>{' '}
+                        <span className="text-gray-500">({Math.round(criterion.weight)}%)</span>:{' '}
+                        <span className={getScoreColor(criterion.score)}>{criterion.score}</span>
+                        {criterion.rationale && <span> - {criterion.rationale}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {!question.skipped && question.star && (
+                  <div className="mt-2 flex flex-wrap items-center gap-2 pl-6 text-xs">
+                    <span className="text-gray-400">STAR {question.star.completeness}%</span>
+                    {question.star.segments.map((segment) => (
+                      <span
+                        key={segment.component}
+                        title={segment.excerpt}
+                        className={`rounded border px-1.5 py-0.5 ${
+                          segment.present
+                            ? 'border-[#3ecf8e]/30 text-[#3ecf8e]'
+                            : 'border-red-500/30 text-red-300'
+                        }`}
+                      >
+                        {STAR_LABELS[segment.component]} {segment.present ? '✓' : 'missing'}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {question.code && (
+                  <details className="mt-2 pl-6 text-sm">
+                    <summary className="cursor-pointer text-gray-400">
+                      Your code ({question.code.language}):{' '}
+                      <span className={question.code.passed === question.code.total ? 'text-[#3ecf8e]' : 'text-red-300'}>
+                        {question.code.passed}/{question.code.total} tests passed
+                      </span>
+                      {!question.code.submitted && <span className="text-gray-500"> - not submitted</span>}
+                    </summary>
+                    <pre className="mt-2 overflow-x-auto rounded-lg border border-white/10 bg-[#0b0b0b] p-3 font-mono text-xs text-gray-200">
+                      {question.code.source}
+                    </pre>
+                    {question.code.error && (
+                      <p className="mt-1 text-xs text-red-300">{question.code.error}</p>
+                    )}
+                    <ul className="mt-1 space-y-0.5 text-xs">
+                      {question.code.outcomes.filter((outcome) => !outcome.passed).map((outcome) => (
+                        <li key={outcome.index} className="text-gray-400">
+                          <span className="text-red-300">✗</span>{' '}
+                          {outcome.hidden
+                            ? `Hidden test ${outcome.index + 1}`
+                            : `${outcome.name || `Test ${outcome.index + 1}`}: expected ${JSON.stringify(outcome.expected)}, got ${outcome.error ?? JSON.stringify(outcome.actual)}`}
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Analysis Grid */}
       <div className="grid md:grid-cols-3 gap-6 mb-6">
         {/* Confidence */}
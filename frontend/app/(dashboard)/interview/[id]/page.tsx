@@ -3,11 +3,13 @@
 import { useState, useEffect, useRef } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { useAuth } from '@clerk/nextjs';
-import { Phone, PhoneOff } from 'lucide-react';
+import { MessageSquare, Phone, PhoneOff } from 'lucide-react';
 import { io, Socket } from 'socket.io-client';
 import { useSpeechToText } from '@/components/SpeechToText';
 import { useTextToSpeech } from '@/components/TextToSpeech';
 import { useAudioQueue } from '@/components/useAudioQueue';
+import { ChatMessage, ChatPanel } from '@/components/ChatPanel';
+import { CodePanel, CodeLanguage, CodeRun, CodingQuestion, TestOutcome } from '@/components/CodePanel';
 import { set } from 'date-fns';
 
 export default function InterviewPage() {
@@ -17,6 +19,32 @@ export default function InterviewPage() {
   const { getToken } = useAuth();
 
   const [callActive, setCallActive] = useState(false);
+  const [reconnecting, setReconnecting] = useState(false);
+  const [paused, setPaused] = useState(false);
+  const [modality, setModality] = useState<'voice' | 'chat' | null>(null);
+  const [interviewerName, setInterviewerName] = useState('');
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [awaitingReply, setAwaitingReply] = useState(false);
+  const [codingQuestion, setCodingQuestion] = useState<CodingQuestion | null>(null);
+  const [codeRun, setCodeRun] = useState<CodeRun | null>(null);
+
+  // Mirror of callActive for socket handlers registered once
+  const callActiveRef = useRef(false);
+  useEffect(() => {
+    callActiveRef.current = callActive;
+  }, [callActive]);
+
+  // Mirror of modality for socket handlers registered once
+  const modalityRef = useRef<'voice' | 'chat' | null>(null);
+  useEffect(() => {
+    modalityRef.current = modality;
+  }, [modality]);
+
+  // TTS voice of the interview's persona; read when each batch is converted
+  const voiceRef = useRef<string | undefined>(undefined);
+
+  // Whether the last chat message is still being streamed
+  const chatStreamingRef = useRef(false);
 
   const socketRef = useRef<Socket | null>(null);
 
@@ -32,6 +60,11 @@ export default function InterviewPage() {
   // Flag to track if flush is pending
   const pendingFlushRef = useRef<boolean>(false);
 
+  // Timestamps for response-time metrics (epoch ms)
+  const promptFinishedAtRef = useRef<number | null>(null);
+  const speechStartedAtRef = useRef<number | null>(null);
+  const speechEndedAtRef = useRef<number | null>(null);
+
 
   const {
     currentTranscript,
@@ -95,7 +128,7 @@ export default function InterviewPage() {
         textBufferRef.current = remainder;
 
         // Convert to audio
-        const audioBuffer = await textToAudioBuffer(textToConvert);
+        const audioBuffer = await textToAudioBuffer(textToConvert, voiceRef.current);
         enqueue(audioBuffer, textToConvert);
       } finally {
         // Release processing lock
@@ -117,6 +150,30 @@ export default function InterviewPage() {
     }
   };
 
+  // Chat interviews skip speech entirely; voice interviews speak with the persona's voice
+  useEffect(() => {
+    if (!interviewId) return;
+
+    const fetchInterview = async () => {
+      try {
+        const token = await getToken();
+        const response = await fetch(
+          `${process.env.NEXT_PUBLIC_API_URL}/api/interviews/${interviewId}`,
+          { headers: { Authorization: `Bearer ${token}` } }
+        );
+        const data = await response.json();
+        setModality(data.interview?.modality === 'chat' ? 'chat' : 'voice');
+        voiceRef.current = data.persona?.voice;
+        setInterviewerName(data.persona?.name ?? '');
+      } catch (error) {
+        console.error('Error fetching interview:', error);
+        setModality('voice');
+      }
+    };
+
+    fetchInterview();
+  }, [interviewId]);
+
   // Socket connection setup
   useEffect(() => {
     if (!interviewId) return;
@@ -135,7 +192,9 @@ export default function InterviewPage() {
           auth: {
             token: token || undefined,
           },
-          reconnection: false, // Disable auto-reconnection to prevent loops
+          reconnection: true, // Session state is checkpointed server-side
+          reconnectionAttempts: 10,
+          reconnectionDelay: 1000,
           timeout: 10000,
           transports: ['websocket'], // Force WebSocket only for lower latency
           upgrade: false,
@@ -143,15 +202,115 @@ export default function InterviewPage() {
 
         socketRef.current = socket;
 
-        // Join interview session
+        // Join interview session (again after every reconnect)
         socket.on('connect', () => {
+          setReconnecting(false);
           socket?.emit('join_interview', { interviewId });
         });
 
+        socket.on('disconnect', (reason) => {
+          if (!mounted) return;
+          // Server- or client-initiated disconnects are final
+          if (reason !== 'io server disconnect' && reason !== 'io client disconnect') {
+            setReconnecting(true);
+          }
+        });
+
+        // The interview was opened in another tab or device
+        socket.on('session_taken_over', (data: { message: string }) => {
+          if (!mounted) return;
+
+          setCallActive(false);
+          clearQueue();
+          alert(data.message);
+          router.push('/dashboard');
+        });
+
+        // Server restored a checkpointed session - resume if the call is live
+        socket.on('session_restored', (data: { paused?: boolean }) => {
+          if (!mounted) return;
+
+          setPaused(Boolean(data.paused));
+
+          textBufferRef.current = '';
+          isProcessingRef.current = false;
+          pendingFlushRef.current = false;
+          lastTranscriptRef.current = '';
+
+          if (callActiveRef.current) {
+            clearQueue();
+            resetFirstAudioFlag();
+            socket?.emit('start_interview');
+          }
+        });
+
+        // Candidate asked for a break - anything they say next resumes
+        socket.on('interview_paused', () => {
+          if (!mounted) return;
+          setPaused(true);
+        });
+
+        socket.on('interview_resumed', () => {
+          if (!mounted) return;
+          setPaused(false);
+        });
+
+        // A coding question opens the editor; a repeat for the same question keeps the candidate's code
+        socket.on('coding_question', (data: CodingQuestion) => {
+          if (!mounted) return;
+          setCodingQuestion(prev => (prev?.question_id === data.question_id ? prev : data));
+        });
+
+        socket.on('coding_question_closed', () => {
+          if (!mounted) return;
+          setCodingQuestion(null);
+          setCodeRun(null);
+        });
+
+        socket.on('code_run_started', (data: { submit: boolean; total: number }) => {
+          if (!mounted) return;
+          setCodeRun({ running: true, submitted: data.submit, total: data.total, outcomes: [] });
+        });
+
+        socket.on('code_test_result', (outcome: TestOutcome) => {
+          if (!mounted) return;
+          setCodeRun(prev => prev && { ...prev, outcomes: [...prev.outcomes, outcome] });
+        });
+
+        socket.on('code_run_complete', (data: Omit<CodeRun, 'running'>) => {
+          if (!mounted) return;
+          setCodeRun({ ...data, running: false });
+        });
+
+        socket.on('code_run_error', (data: { message: string }) => {
+          if (!mounted) return;
+          setCodeRun(prev => ({
+            submitted: false,
+            total: 0,
+            outcomes: [],
+            ...prev,
+            running: false,
+            error: data.message,
+          }));
+        });
+
         // Listen for streamed text chunks
         socket.on('text_chunk', async (data: { chunk: string }) => {
           if (!mounted) return;
 
+          if (modalityRef.current === 'chat') {
+            const streaming = chatStreamingRef.current;
+            chatStreamingRef.current = true;
+            setAwaitingReply(false);
+            setChatMessages(prev => {
+              const last = prev[prev.length - 1];
+              return streaming && last?.role === 'interviewer'
+                ? [...prev.slice(0, -1), { role: 'interviewer', text: last.text + data.chunk }]
+                : [...prev, { role: 'interviewer', text: data.chunk }];
+            });
+            return;
+          }
+
           // Add chunk to buffer
           textBufferRef.current += data.chunk;
 
@@ -163,6 +322,22 @@ export default function InterviewPage() {
         socket.on('text_complete', async (data: { fullText: string }) => {
           if (!mounted) return;
 
+          if (modalityRef.current === 'chat') {
+            // The full text replaces the streamed chunks (it is trimmed, or a fallback after an error)
+            const streaming = chatStreamingRef.current;
+            chatStreamingRef.current = false;
+            promptFinishedAtRef.current = Date.now();
+            setAwaitingReply(false);
+            setChatMessages(prev => {
+              const last = prev[prev.length - 1];
+              if (streaming && last?.role === 'interviewer') {
+                return [...prev.slice(0, -1), { role: 'interviewer', text: data.fullText || last.text }];
+              }
+              return data.fullText ? [...prev, { role: 'interviewer', text: data.fullText }] : prev;
+            });
+            return;
+          }
+
           // Flush any remaining buffered text
           // Note: Don't clear buffer here - processTextBuffer will handle it
           await processTextBuffer(true);
@@ -212,6 +387,22 @@ export default function InterviewPage() {
     };
   }, [interviewId]); // Only depend on interviewId
 
+  // Note when the interviewer finished talking
+  useEffect(() => {
+    if (!isPlaying && queueLength === 0) {
+      promptFinishedAtRef.current = Date.now();
+    }
+  }, [isPlaying, queueLength]);
+
+  // Note when the candidate starts and stops talking
+  useEffect(() => {
+    if (isSpeaking) {
+      speechStartedAtRef.current ??= Date.now();
+    } else if (speechStartedAtRef.current) {
+      speechEndedAtRef.current = Date.now();
+    }
+  }, [isSpeaking]);
+
   // Send transcript when user stops speaking
   useEffect(() => {
     // When user stops speaking and there's finalized content
@@ -228,13 +419,31 @@ export default function InterviewPage() {
         // Reset first audio flag for new transcript
         resetFirstAudioFlag();
         console.log('Sending user response:', combinedTranscript);
-        socketRef.current.emit('user_response', { text: combinedTranscript });
+        socketRef.current.emit('user_response', {
+          text: combinedTranscript,
+          timing: {
+            prompt_finished_at: promptFinishedAtRef.current ?? undefined,
+            speech_started_at: speechStartedAtRef.current ?? undefined,
+            speech_ended_at: speechEndedAtRef.current ?? Date.now(),
+            sent_at: Date.now(),
+          },
+        });
         lastTranscriptRef.current = combinedTranscript;
+        speechStartedAtRef.current = null;
+        speechEndedAtRef.current = null;
       }
     }
   }, [isSpeaking, finalizedTranscripts]);
 
   const startCall = async () => {
+    if (modality === 'chat') {
+      setCallActive(true);
+      setAwaitingReply(true);
+      chatStreamingRef.current = false;
+      socketRef.current?.emit('start_interview');
+      return;
+    }
+
     if (!isTranscribing) {
       await toggleTranscription();
     }
@@ -251,11 +460,48 @@ export default function InterviewPage() {
     }
   };
 
+  // Typed answers go through the same user_response event; typing stands in for speech in the timing
+  const sendChatMessage = (text: string, typingStartedAt: number) => {
+    if (!socketRef.current?.connected) return;
+
+    chatStreamingRef.current = false;
+    setChatMessages(prev => [...prev, { role: 'candidate', text }]);
+    setAwaitingReply(true);
+
+    const now = Date.now();
+    socketRef.current.emit('user_response', {
+      text,
+      timing: {
+        prompt_finished_at: promptFinishedAtRef.current ?? undefined,
+        speech_started_at: typingStartedAt,
+        speech_ended_at: now,
+        sent_at: now,
+      },
+    });
+  };
+
+  const runCode = (code: string, language: CodeLanguage, submit: boolean) => {
+    if (!socketRef.current?.connected) return;
+
+    // The interviewer talks about the result, like after a spoken answer
+    textBufferRef.current = '';
+    isProcessingRef.current = false;
+    pendingFlushRef.current = false;
+    resetFirstAudioFlag();
+
+    setCodeRun({ running: true, submitted: submit, total: 0, outcomes: [] });
+    if (modality === 'chat') {
+      setAwaitingReply(true);
+    }
+    socketRef.current.emit('run_code', { code, language, submit });
+  };
+
   const stopCall = async () => {
     if (isTranscribing) {
       await toggleTranscription();
     }
     setCallActive(false);
+    setAwaitingReply(false);
     clearQueue();
     // Clear text buffer when stopping conversation
     textBufferRef.current = '';
@@ -265,66 +511,89 @@ export default function InterviewPage() {
 
   return (
     <div className="min-h-screen bg-[#0b0b0b] text-white flex items-center justify-center p-4">
-      <div className="max-w-2xl w-full">
+      <div className={`${codingQuestion ? 'max-w-6xl grid gap-6 lg:grid-cols-2 items-start' : 'max-w-2xl'} w-full`}>
         <div className="bg-[#0e0e0e] backdrop-blur-lg rounded-3xl shadow-2xl border border-white/10 p-8">
 
           {/* Header */}
           <div className="text-center mb-8">
             <h1 className="text-3xl font-bold mb-2">Interview Session</h1>
+            {interviewerName && (
+              <p className="text-sm text-gray-500 mb-1">Interviewer: {interviewerName}</p>
+            )}
             <p className="text-gray-400">
-              {callActive ? 'Session Active' : 'Click Start to begin'}
+              {reconnecting
+                ? 'Connection lost - reconnecting...'
+                : paused
+                  ? `Paused - ${modality === 'chat' ? 'type' : 'say'} anything when you are ready to continue`
+                  : callActive
+                    ? 'Session Active'
+                    : 'Click Start to begin'}
             </p>
-            <div className="mt-2 flex justify-center gap-4 text-sm">
-              <span className="text-purple-400">Queue: {queueLength}</span>
-              <span className={isPlaying ? 'text-green-400' : 'text-gray-500'}>
-                {isPlaying ? 'Playing' : 'Idle'}
-              </span>
-              <span className={isSpeaking ? 'text-red-400' : 'text-gray-500'}>
-                {isSpeaking ? 'User Speaking' : 'Not Speaking'}
-              </span>
-            </div>
-          </div>
-
-          {/* AI Speaking Display */}
-          <div className="mb-6 p-6 bg-purple-500/10 border border-purple-500/30 rounded-2xl min-h-[120px]">
-            <h3 className="text-sm font-semibold text-purple-400 mb-3">AI Speaking:</h3>
-            {currentPlayingText ? (
-              <p className="text-green-300 text-lg font-medium">
-                {currentPlayingText}
-              </p>
-            ) : (
-              <p className="text-gray-400 italic">
-                {callActive ? 'Waiting for next response...' : 'Not active'}
-              </p>
+            {modality !== 'chat' && (
+              <div className="mt-2 flex justify-center gap-4 text-sm">
+                <span className="text-purple-400">Queue: {queueLength}</span>
+                <span className={isPlaying ? 'text-green-400' : 'text-gray-500'}>
+                  {isPlaying ? 'Playing' : 'Idle'}
+                </span>
+                <span className={isSpeaking ? 'text-red-400' : 'text-gray-500'}>
+                  {isSpeaking ? 'User Speaking' : 'Not Speaking'}
+                </span>
+              </div>
             )}
           </div>
 
-          {/* Live Transcription Display */}
-          {/* <div className="mb-6 min-h-[80px] p-6 bg-[#0b0b0b]/30 rounded-2xl border border-white/10">
-            <h3 className="text-sm font-semibold text-gray-400 mb-2">Live Transcription:</h3>
-            <p className="text-gray-300">
-              {currentTranscript || (callActive ? 'Start speaking...' : 'Not active')}
-            </p>
-          </div> */}
-
-          {/* Finalized Transcripts */}
-          <div className="mb-6 min-h-[120px] p-6 bg-green-500/10 border border-green-500/30 rounded-2xl">
-            <h3 className="text-sm font-semibold text-green-400 mb-2">Finalized Transcripts:</h3>
-            {finalizedTranscripts.length === 0 ? (
-              <p className="text-gray-400 italic">None yet</p>
-            ) : (
-              <p>{finalizedTranscripts.join(' ')}</p>
-            )}
-          </div>
+          {modality === 'chat' ? (
+            <ChatPanel
+              messages={chatMessages}
+              active={callActive}
+              awaitingReply={awaitingReply}
+              onSend={sendChatMessage}
+            />
+          ) : (
+            <>
+              {/* AI Speaking Display */}
+              <div className="mb-6 p-6 bg-purple-500/10 border border-purple-500/30 rounded-2xl min-h-[120px]">
+                <h3 className="text-sm font-semibold text-purple-400 mb-3">AI Speaking:</h3>
+                {currentPlayingText ? (
+                  <p className="text-green-300 text-lg font-medium">
+                    {currentPlayingText}
+                  </p>
+                ) : (
+                  <p className="text-gray-400 italic">
+                    {callActive ? 'Waiting for next response...' : 'Not active'}
+                  </p>
+                )}
+              </div>
+
+              {/* Live Transcription Display */}
+              {/* <div className="mb-6 min-h-[80px] p-6 bg-[#0b0b0b]/30 rounded-2xl border border-white/10">
+                <h3 className="text-sm font-semibold text-gray-400 mb-2">Live Transcription:</h3>
+                <p className="text-gray-300">
+                  {currentTranscript || (callActive ? 'Start speaking...' : 'Not active')}
+                </p>
+              </div> */}
+
+              {/* Finalized Transcripts */}
+              <div className="mb-6 min-h-[120px] p-6 bg-green-500/10 border border-green-500/30 rounded-2xl">
+                <h3 className="text-sm font-semibold text-green-400 mb-2">Finalized Transcripts:</h3>
+                {finalizedTranscripts.length === 0 ? (
+                  <p className="text-gray-400 italic">None yet</p>
+                ) : (
+                  <p>{finalizedTranscripts.join(' ')}</p>
+                )}
+              </div>
+            </>
+          )}
 
           {/* Controls */}
           <div className="flex justify-center gap-4">
             {!callActive ? (
               <button
                 onClick={startCall}
-                className="flex items-center gap-3 px-8 py-4 bg-[#3ecf8e] hover:bg-[#36be81] rounded-full font-semibold text-lg text-black shadow-lg transition-all"
+                disabled={!modality}
+                className="flex items-center gap-3 px-8 py-4 bg-[#3ecf8e] hover:bg-[#36be81] rounded-full font-semibold text-lg text-black shadow-lg transition-all disabled:opacity-50"
               >
-                <Phone className="w-6 h-6" />
+                {modality === 'chat' ? <MessageSquare className="w-6 h-6" /> : <Phone className="w-6 h-6" />}
                 Start Session
               </button>
             ) : (
@@ -339,6 +608,10 @@ export default function InterviewPage() {
           </div>
 
         </div>
+
+        {codingQuestion && (
+          <CodePanel question={codingQuestion} run={codeRun} onRun={runCode} />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,100 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Loader2, Send } from 'lucide-react';
+
+export interface ChatMessage {
+  role: 'interviewer' | 'candidate';
+  text: string;
+}
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  active: boolean;
+  awaitingReply: boolean;
+  onSend: (text: string, typingStartedAt: number) => void;
+}
+
+/**
+ * Interviewer messages and a typed-answer box, for chat interviews
+ */
+export function ChatPanel({ messages, active, awaitingReply, onSend }: ChatPanelProps) {
+  const [draft, setDraft] = useState('');
+  const typingStartedAtRef = useRef<number | null>(null);
+  const bottomRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages, awaitingReply]);
+
+  const send = () => {
+    const text = draft.trim();
+    if (!text || !active) return;
+
+    onSend(text, typingStartedAtRef.current ?? Date.now());
+    setDraft('');
+    typingStartedAtRef.current = null;
+  };
+
+  // Enter sends, Shift+Enter starts a new line
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      send();
+    }
+  };
+
+  return (
+    <div className="mb-6 flex flex-col rounded-2xl border border-white/10 bg-[#0b0b0b]/30">
+      <div className="h-[420px] overflow-y-auto p-4 space-y-3">
+        {messages.length === 0 && (
+          <p className="text-gray-400 italic">
+            {active ? 'Waiting for the interviewer...' : 'Not active'}
+          </p>
+        )}
+        {messages.map((message, i) => (
+          <div
+            key={i}
+            className={`max-w-[85%] rounded-2xl px-4 py-2 whitespace-pre-wrap ${
+              message.role === 'interviewer'
+                ? 'bg-purple-500/10 border border-purple-500/30 text-gray-100'
+                : 'ml-auto bg-[#3ecf8e]/10 border border-[#3ecf8e]/30 text-gray-100'
+            }`}
+          >
+            {message.text}
+          </div>
+        ))}
+        {awaitingReply && (
+          <div className="flex items-center gap-2 text-sm text-gray-400">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Interviewer is typing...
+          </div>
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <div className="flex items-end gap-2 border-t border-white/10 p-3">
+        <textarea
+          value={draft}
+          onChange={(e) => {
+            typingStartedAtRef.current ??= Date.now();
+            setDraft(e.target.value);
+          }}
+          onKeyDown={handleKeyDown}
+          disabled={!active}
+          rows={3}
+          placeholder={active ? 'Type your answer... (Enter to send, Shift+Enter for a new line)' : 'Start the session to answer'}
+          className="flex-1 resize-none rounded-xl border border-white/10 bg-[#0b0b0b] px-3 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-[#3ecf8e]/50 disabled:opacity-50"
+        />
+        <button
+          onClick={send}
+          disabled={!active || !draft.trim()}
+          className="flex items-center gap-2 px-4 py-2 bg-[#3ecf8e] hover:bg-[#36be81] rounded-lg text-sm font-semibold text-black transition-all disabled:opacity-50"
+          aria-label="Send answer"
+        >
+          <Send className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CheckCircle2, Loader2, Play, Send, XCircle } from 'lucide-react';
+
+export type CodeLanguage = 'javascript' | 'typescript' | 'python';
+
+export interface CodingQuestion {
+  question_id: number;
+  text: string;
+  entry_point: string;
+  languages: CodeLanguage[];
+  starter_code: Partial<Record<CodeLanguage, string>>;
+  examples: Array<{ name?: string; args: unknown[]; expected: unknown }>;
+  hidden_tests: number;
+  code?: { language: CodeLanguage; source: string };
+}
+
+export interface TestOutcome {
+  index: number;
+  name?: string;
+  hidden: boolean;
+  passed: boolean;
+  args?: unknown[];
+  expected?: unknown;
+  actual?: unknown;
+  error?: string;
+}
+
+// A run in progress or its final result
+export interface CodeRun {
+  running: boolean;
+  submitted: boolean;
+  total: number;
+  outcomes: TestOutcome[];
+  passed?: number;
+  stdout?: string;
+  error?: string;
+  timed_out?: boolean;
+}
+
+const LANGUAGE_LABELS: Record<CodeLanguage, string> = {
+  javascript: 'JavaScript',
+  typescript: 'TypeScript',
+  python: 'Python',
+};
+
+function defaultStarter(language: CodeLanguage, entryPoint: string): string {
+  if (language === 'python') {
+    return `def ${entryPoint}(*args):\n    pass\n`;
+  }
+  return `function ${entryPoint}(...args) {\n  \n}\n`;
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? 'undefined' : JSON.stringify(value);
+}
+
+interface CodePanelProps {
+  question: CodingQuestion;
+  run: CodeRun | null;
+  onRun: (code: string, language: CodeLanguage, submit: boolean) => void;
+}
+
+/**
+ * Editor and test results for the open coding question
+ */
+export function CodePanel({ question, run, onRun }: CodePanelProps) {
+  const [language, setLanguage] = useState<CodeLanguage>(question.code?.language ?? question.languages[0]);
+  // One draft per language, so switching back and forth keeps the candidate's code
+  const [drafts, setDrafts] = useState<Partial<Record<CodeLanguage, string>>>({});
+
+  // A new question starts from its starter code, or from what was saved before a reconnect
+  useEffect(() => {
+    setLanguage(question.code?.language ?? question.languages[0]);
+    setDrafts(question.code ? { [question.code.language]: question.code.source } : {});
+  }, [question.question_id]);
+
+  const source = drafts[language] ?? question.starter_code[language] ?? defaultStarter(language, question.entry_point);
+  const indent = language === 'python' ? '    ' : '  ';
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab') return;
+    e.preventDefault();
+
+    const target = e.currentTarget;
+    const { selectionStart, selectionEnd } = target;
+    setDrafts(prev => ({ ...prev, [language]: source.slice(0, selectionStart) + indent + source.slice(selectionEnd) }));
+    requestAnimationFrame(() => {
+      target.selectionStart = target.selectionEnd = selectionStart + indent.length;
+    });
+  };
+
+  return (
+    <div className="bg-[#0e0e0e] rounded-3xl shadow-2xl border border-white/10 p-6 flex flex-col gap-4">
+      <div>
+        <h2 className="text-lg font-semibold mb-1">Coding Question</h2>
+        <p className="text-sm text-gray-300">{question.text}</p>
+      </div>
+
+      {question.examples.length > 0 && (
+        <div className="text-xs text-gray-400 space-y-1">
+          {question.examples.map((example, i) => (
+            <p key={i} className="font-mono">
+              {question.entry_point}({example.args.map(formatValue).join(', ')}) → {formatValue(example.expected)}
+            </p>
+          ))}
+          {question.hidden_tests > 0 && (
+            <p>+ {question.hidden_tests} hidden test{question.hidden_tests === 1 ? '' : 's'} on submit</p>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-3">
+        <select
+          value={language}
+          onChange={(e) => setLanguage(e.target.value as CodeLanguage)}
+          disabled={run?.running}
+          className="bg-[#0b0b0b] border border-white/10 rounded-lg px-3 py-2 text-sm"
+        >
+          {question.languages.map(lang => (
+            <option key={lang} value={lang}>{LANGUAGE_LABELS[lang]}</option>
+          ))}
+        </select>
+        <div className="flex gap-2">
+          <button
+            onClick={() => onRun(source, language, false)}
+            disabled={run?.running || !source.trim()}
+            className="flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-sm font-medium transition-all disabled:opacity-50"
+          >
+            <Play className="w-4 h-4" />
+            Run
+          </button>
+          <button
+            onClick={() => onRun(source, language, true)}
+            disabled={run?.running || !source.trim()}
+            className="flex items-center gap-2 px-4 py-2 bg-[#3ecf8e] hover:bg-[#36be81] rounded-lg text-sm font-semibold text-black transition-all disabled:opacity-50"
+          >
+            <Send className="w-4 h-4" />
+            Submit
+          </button>
+        </div>
+      </div>
+
+      <textarea
+        value={source}
+        onChange={(e) => setDrafts(prev => ({ ...prev, [language]: e.target.value }))}
+        onKeyDown={handleKeyDown}
+        spellCheck={false}
+        className="w-full h-80 bg-[#0b0b0b] border border-white/10 rounded-xl p-4 font-mono text-sm text-gray-100 resize-y focus:outline-none focus:border-[#3ecf8e]/50"
+      />
+
+      {run && (
+        <div className="bg-[#0b0b0b] border border-white/10 rounded-xl p-4 text-sm space-y-2">
+          <div className="flex items-center gap-2 font-medium">
+            {run.running ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin" />
+                {run.submitted ? 'Submitting' : 'Running'}... {run.outcomes.length}/{run.total}
+              </>
+            ) : (
+              <span className={run.passed === run.total && !run.error ? 'text-[#3ecf8e]' : 'text-red-400'}>
+                {run.passed ?? 0}/{run.total} tests passed{run.submitted ? ' (submitted)' : ''}
+              </span>
+            )}
+          </div>
+
+          {run.outcomes.map(outcome => (
+            <div key={outcome.index} className="flex items-start gap-2 font-mono text-xs">
+              {outcome.passed
+                ? <CheckCircle2 className="w-4 h-4 text-[#3ecf8e] shrink-0" />
+                : <XCircle className="w-4 h-4 text-red-400 shrink-0" />}
+              <div>
+                <p>{outcome.hidden ? `Hidden test ${outcome.index + 1}` : outcome.name || `Test ${outcome.index + 1}`}</p>
+                {!outcome.passed && !outcome.hidden && (
+                  <p className="text-gray-400">
+                    expected {formatValue(outcome.expected)}, got {outcome.error ?? formatValue(outcome.actual)}
+                  </p>
+                )}
+              </div>
+            </div>
+          ))}
+
+          {run.error && (
+            <pre className="text-red-400 text-xs whitespace-pre-wrap">
+              {run.timed_out ? 'Timed out: ' : ''}{run.error}
+            </pre>
+          )}
+          {run.stdout && (
+            <pre className="text-gray-400 text-xs whitespace-pre-wrap max-h-32 overflow-auto">{run.stdout}</pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
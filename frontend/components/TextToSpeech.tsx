@@ -105,7 +105,8 @@ export function useTextToSpeech() {
 
   // ========== QUEUE-BASED TTS (Used with Audio Queue) ==========
   // Convert text to audio buffer without playing (for queueing)
-  const textToAudioBuffer = async (text: string): Promise<AudioBuffer> => {
+  // voice is a Deepgram Aura model; each interviewer persona has its own
+  const textToAudioBuffer = async (text: string, voice: string = 'aura-asteria-en'): Promise<AudioBuffer> => {
     if (!text.trim()) {
       throw new Error('No text provided for TTS');
     }
@@ -113,7 +114,7 @@ export function useTextToSpeech() {
     const deepgramKey = process.env.NEXT_PUBLIC_DEEPGRAM_API_KEY ?? '';
 
     // Make request to Deepgram TTS API
-    const response = await fetch('https://api.deepgram.com/v1/speak?model=aura-asteria-en', {
+    const response = await fetch(`https://api.deepgram.com/v1/speak?model=${encodeURIComponent(voice)}`, {
       method: 'POST',
       headers: {
         'Authorization': `Token ${deepgramKey}`,